@@ -1,11 +1,39 @@
 "use client";
 
-import { use, useEffect, useState } from "react";
+import { use, useEffect, useRef, useState } from "react";
 import { useAuth } from "@clerk/nextjs";
+import { useSearchParams } from "next/navigation";
 import { ChatInterface } from "@/components/chat/ChatInterface";
-import { ChatWithMessages, Message } from "@/types";
+import {
+  ChatSettingsOverride,
+  ChatStreamEvent,
+  ChatWithMessages,
+  Citation,
+  ComparisonResult,
+  ComparisonRun,
+  Message,
+  MessageAttachment,
+  MessageFeedback,
+  ProjectDocument,
+  ProjectSettings,
+  PromptTemplate,
+  ToolCallStep,
+} from "@/types";
 import { apiClient } from "@/lib/index";
+import {
+  getServerAncestorId,
+  getSiblings,
+  getVisibleThread,
+  isClientOnlyMessage,
+  normalizeMessageTree,
+  selectBranch,
+  selectPathTo,
+} from "@/lib/messageTree";
+import { buildFallbackTitle, isDefaultChatTitle } from "@/lib/chatTitle";
+import { chatToMarkdown, downloadFile } from "@/lib/chatExport";
+import { SlashCommandResult } from "@/lib/slashCommands";
 import { MessageFeedbackModal } from "@/components/chat/MessageFeedbackModel";
+import { FileDetailsModal } from "@/components/projects/FileDetailsModal";
 import toast from "react-hot-toast";
 import { NotFound } from "@/components/ui/NotFound";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
@@ -19,6 +47,12 @@ interface ProjectChatPageProps {
 
 export default function ProjectChatPage({ params }: ProjectChatPageProps) {
   const { id: projectId, chatId } = use(params);
+  const searchParams = useSearchParams();
+  // Set when arriving from a search result, scrolled into view and flashed
+  const targetMessageId = searchParams.get("message");
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
 
   const [currentChatData, setCurrentChatData] =
     useState<ChatWithMessages | null>(null);
@@ -28,6 +62,41 @@ export default function ProjectChatPage({ params }: ProjectChatPageProps) {
   const [sendMessageError, setSendMessageError] = useState<string | null>(null);
   const [isMessageSending, setIsMessageSending] = useState(false);
 
+  // * Streaming States - Partial answer while the server is still generating
+  const [streamingMessage, setStreamingMessage] = useState("");
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [agentStatus, setAgentStatus] = useState("");
+  const [streamingToolCalls, setStreamingToolCalls] = useState<ToolCallStep[]>(
+    []
+  );
+  const [regeneratingMessageId, setRegeneratingMessageId] = useState<
+    string | null
+  >(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set by /clear: the next question starts a new root branch without earlier context
+  const [isFreshStart, setIsFreshStart] = useState(false);
+
+  // * Source Documents - Used to open citations at the cited chunk
+  const [projectDocuments, setProjectDocuments] = useState<ProjectDocument[]>(
+    []
+  );
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+
+  // * Project Settings - Defaults the chat-level override is compared against
+  const [projectSettings, setProjectSettings] =
+    useState<ProjectSettings | null>(null);
+
+  // * Compare Mode - Same question answered under several strategies side by side
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [comparisonStrategies, setComparisonStrategies] = useState<string[]>([
+    "basic",
+    "hybrid",
+  ]);
+  const [comparisonRuns, setComparisonRuns] = useState<ComparisonRun[]>([]);
+
+  // * Prompt Templates - Saved questions shared across the user's projects
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+
   const [feedbackModal, setFeedbackModal] = useState<{
     messageId: string;
     type: "like" | "dislike";
@@ -37,9 +106,169 @@ export default function ProjectChatPage({ params }: ProjectChatPageProps) {
 
   /*
    ! Business Logic Functions - Core operations for this project:
+   * streamAnswer: Stream an answer into the UI and resolve with the saved messages
+   * uploadAttachments: Upload files attached to a question to S3
    * handleSendMessage: Send a message to the chat
+   * handleSendWithAttachments: Upload attachments, then send the question
+   * handleSlashCommand: Apply a command typed into the chat input
+   * handleRetryMessage: Send a failed message again
+   * handleEditMessage: Send an edited question as a new branch
+   * handleRegenerateMessage: Generate a new variant of an assistant answer
+   * handleStopGenerating: Cancel the in-flight answer
+   * handleRenameChat: Change the chat title
+   * generateChatTitle: Name the chat after its first question/answer pair
+   * handleUpdateChatSettings: Save or clear this chat's retrieval settings override
+   * handleCompareQuestion: Ask one question under each selected strategy in parallel
+   * handlePreferStrategy: Record which compared answer was best as feedback
+   * handleCreateTemplate: Save a new prompt template
+   * handleDeleteTemplate: Remove a prompt template
   */
-  const handleSendMessage = async (content: string) => {
+  const streamAnswer = async (
+    endpoint: string,
+    payload: Record<string, unknown>,
+    signal: AbortSignal,
+    onToken: (content: string) => void
+  ) => {
+    const token = await getToken();
+    let finalMessages = null as {
+      userMessage: Message;
+      aiResponse: Message;
+    } | null;
+
+    await apiClient.stream(
+      endpoint,
+      payload,
+      token,
+      (event: ChatStreamEvent) => {
+        switch (event.type) {
+          case "status":
+            setAgentStatus(event.status);
+            break;
+          case "tool_call":
+            // Steps are re-sent as they progress, replace by id
+            setStreamingToolCalls((prev) =>
+              prev.some((step) => step.id === event.step.id)
+                ? prev.map((step) =>
+                    step.id === event.step.id ? event.step : step
+                  )
+                : [...prev, event.step]
+            );
+            break;
+          case "token":
+            onToken(event.content);
+            setIsStreaming(true);
+            break;
+          case "done":
+            finalMessages = {
+              userMessage: event.userMessage,
+              aiResponse: event.aiResponse,
+            };
+            break;
+          case "error":
+            throw new Error(event.message);
+        }
+      },
+      signal
+    );
+
+    if (!finalMessages) {
+      throw new Error("Stream ended before the answer was complete");
+    }
+
+    return finalMessages;
+  };
+
+  const resetStreamingState = () => {
+    abortControllerRef.current = null;
+    setIsMessageSending(false);
+    setIsStreaming(false);
+    setStreamingMessage("");
+    setAgentStatus("");
+    setStreamingToolCalls([]);
+    setRegeneratingMessageId(null);
+  };
+
+  const buildInterruptedMessage = (
+    content: string,
+    parentId: string
+  ): Message => ({
+    id: `interrupted-${Date.now()}`,
+    chat_id: chatId,
+    content,
+    role: "assistant",
+    clerk_id: userId ?? "",
+    created_at: new Date().toISOString(),
+    citations: [],
+    status: "interrupted",
+    parent_id: parentId,
+  });
+
+  // Appends messages to the tree and makes each of them the visible branch
+  const addMessages = (...messages: Message[]) => {
+    setCurrentChatData((prev) => {
+      if (!prev) return prev;
+      return messages.reduce(selectBranch, {
+        ...prev,
+        messages: [...prev.messages, ...messages],
+      });
+    });
+  };
+
+  const removeMessage = (messageId: string) => {
+    setCurrentChatData((prev) => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        messages: prev.messages.filter((msg) => msg.id !== messageId),
+      };
+    });
+  };
+
+  const uploadAttachments = async (
+    files: File[],
+    signal: AbortSignal
+  ): Promise<MessageAttachment[]> => {
+    const token = await getToken();
+
+    return Promise.all(
+      files.map(async (file) => {
+        const presignedUrlResponse = await apiClient.post(
+          `/api/chat/${chatId}/attachments/get-presigned-url`,
+          {
+            file_name: file.name,
+            file_size: file.size,
+            file_type: file.type,
+          },
+          token,
+          signal
+        );
+        const { presigned_url, s3_key } = presignedUrlResponse.data;
+
+        await apiClient.uploadToS3(presigned_url, file, signal);
+
+        return {
+          s3_key,
+          filename: file.name,
+          file_type: file.type,
+          file_size: file.size,
+        };
+      })
+    );
+  };
+
+  // parentId defaults to the last visible message, pass it to branch off elsewhere.
+  // Resolves false when the question didn't go through, so the input can keep it
+  const handleSendMessage = async (
+    content: string,
+    parentId?: string | null,
+    attachments: MessageAttachment[] = [],
+    settingsOverride?: ChatSettingsOverride
+  ): Promise<boolean> => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const optimisticMessageId = `temp-${Date.now()}`;
+    let streamedContent = "";
+
     try {
       setSendMessageError(null);
       setIsMessageSending(true);
@@ -47,87 +276,517 @@ export default function ProjectChatPage({ params }: ProjectChatPageProps) {
       if (!currentChatData || !userId) {
         setSendMessageError("Chat or user not found");
         setIsMessageSending(false);
-        return;
+        return false;
       }
 
+      const isFirstExchange = getVisibleThread(currentChatData).length === 0;
+      // Never branch off a failed or stopped message, the server doesn't know its id
+      const parent_id = getServerAncestorId(
+        currentChatData,
+        parentId !== undefined
+          ? parentId
+          : isFreshStart
+          ? null
+          : getVisibleThread(currentChatData).at(-1)?.id ?? null
+      );
+      setIsFreshStart(false);
+
       // Create optimistic user message to show immediately
       const optimisticUserMessage: Message = {
-        id: `temp-${Date.now()}`,
+        id: optimisticMessageId,
         chat_id: currentChatData.id,
         content: content,
         role: "user",
         clerk_id: userId,
         created_at: new Date().toISOString(),
         citations: [],
+        parent_id,
+        attachments,
       };
 
       // Add user message to UI immediately
+      addMessages(optimisticUserMessage);
+
+      // Stream the answer token by token, the final event carries the saved messages
+      const { userMessage, aiResponse } = await streamAnswer(
+        `/api/chat/${projectId}/chats/${currentChatData.id}/messages/stream`,
+        {
+          content,
+          parent_id,
+          attachments,
+          // A one-off override from a slash command wins over the chat's own
+          settings_override: settingsOverride
+            ? { ...currentChatData.settings_override, ...settingsOverride }
+            : currentChatData.settings_override ?? null,
+        },
+        abortController.signal,
+        (chunk) => {
+          streamedContent += chunk;
+          setStreamingMessage(streamedContent);
+        }
+      );
+
+      // Replace optimistic message and the stream with real messages from server
+      removeMessage(optimisticUserMessage.id);
+      addMessages(
+        { ...userMessage, parent_id: userMessage.parent_id ?? parent_id },
+        { ...aiResponse, parent_id: aiResponse.parent_id ?? userMessage.id }
+      );
+
+      toast.success("Message sent");
+
+      if (isFirstExchange && isDefaultChatTitle(currentChatData.title)) {
+        generateChatTitle(content, aiResponse.content);
+      }
+      return true;
+    } catch (err) {
+      // Stopped by the user: keep the question and whatever was generated so far
+      if (abortController.signal.aborted && streamedContent) {
+        addMessages(
+          buildInterruptedMessage(streamedContent, optimisticMessageId)
+        );
+        return true;
+      }
+
+      // Stopped before any answer arrived is treated like a failed send, not an empty reply
+      if (!abortController.signal.aborted) {
+        setSendMessageError("Failed to send message");
+        toast.error("Failed to send message");
+      }
+
+      // Keep the optimistic message so it can be retried
       setCurrentChatData((prev) => {
         if (!prev) return prev;
         return {
           ...prev,
-          messages: [...prev.messages, optimisticUserMessage],
+          messages: prev.messages.map((msg) =>
+            msg.id === optimisticMessageId
+              ? { ...msg, status: "failed" as const }
+              : msg
+          ),
         };
       });
+      return false;
+    } finally {
+      resetStreamingState();
+    }
+  };
 
-      // Send POST request to create message
+  // Resolves false when an upload fails so the input keeps the question and files
+  const handleSendWithAttachments = async (
+    content: string,
+    files: File[],
+    settingsOverride?: ChatSettingsOverride
+  ) => {
+    if (files.length === 0) {
+      return handleSendMessage(content, undefined, [], settingsOverride);
+    }
+
+    // Stop cancels the uploads too
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    let attachments: MessageAttachment[];
+    try {
+      setIsMessageSending(true);
+      attachments = await uploadAttachments(files, abortController.signal);
+    } catch (err) {
+      if (!abortController.signal.aborted) {
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to upload attachments";
+        toast.error(errorMessage);
+      }
+      abortControllerRef.current = null;
+      setIsMessageSending(false);
+      return false;
+    }
+
+    return handleSendMessage(content, undefined, attachments, settingsOverride);
+  };
+
+  // Resolves false when the command's question wasn't sent
+  const handleSlashCommand = async (
+    result: SlashCommandResult,
+    files: File[]
+  ) => {
+    if (!currentChatData) return false;
+
+    switch (result.type) {
+      case "send":
+        if (isCompareMode) {
+          await handleCompareQuestion(result.content);
+          return true;
+        }
+        return handleSendWithAttachments(
+          result.content,
+          files,
+          result.settingsOverride
+        );
+      case "update_settings":
+        await handleUpdateChatSettings({
+          ...currentChatData.settings_override,
+          ...result.settingsOverride,
+        });
+        break;
+      case "action":
+        if (result.action === "compare") {
+          setIsCompareMode(!isCompareMode);
+        } else if (result.action === "export") {
+          downloadFile(
+            currentChatData.title,
+            "md",
+            chatToMarkdown(currentChatData, getVisibleThread(currentChatData)),
+            "text/markdown"
+          );
+        } else if (result.action === "clear") {
+          setIsFreshStart(true);
+        }
+        break;
+    }
+    return true;
+  };
+
+  const handleRetryMessage = async (messageId: string) => {
+    const failedMessage = currentChatData?.messages.find(
+      (msg) => msg.id === messageId
+    );
+    if (!failedMessage) return;
+
+    // Drop the failed attempt, handleSendMessage adds a fresh optimistic copy
+    removeMessage(messageId);
+
+    await handleSendMessage(
+      failedMessage.content,
+      failedMessage.parent_id,
+      failedMessage.attachments
+    );
+  };
+
+  const handleEditMessage = async (messageId: string, content: string) => {
+    const originalMessage = currentChatData?.messages.find(
+      (msg) => msg.id === messageId
+    );
+    if (!originalMessage) return;
+
+    // The edit becomes a sibling of the original, keeping the old branch intact
+    await handleSendMessage(
+      content,
+      originalMessage.parent_id ?? null,
+      originalMessage.attachments
+    );
+  };
+
+  const handleRegenerateMessage = async (messageId: string) => {
+    const originalMessage = currentChatData?.messages.find(
+      (msg) => msg.id === messageId
+    );
+    if (!currentChatData || !originalMessage?.parent_id || !userId) return;
+    if (isClientOnlyMessage(originalMessage)) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const questionId = originalMessage.parent_id;
+    let streamedContent = "";
+
+    try {
+      setSendMessageError(null);
+      setIsMessageSending(true);
+      setRegeneratingMessageId(messageId);
+
+      const { aiResponse } = await streamAnswer(
+        `/api/chat/${projectId}/chats/${currentChatData.id}/messages/${messageId}/regenerate`,
+        { settings_override: currentChatData.settings_override ?? null },
+        abortController.signal,
+        (chunk) => {
+          streamedContent += chunk;
+          setStreamingMessage(streamedContent);
+        }
+      );
+
+      // New answers are siblings of the original under the same question
+      addMessages({ ...aiResponse, parent_id: questionId });
+      toast.success("Response regenerated");
+    } catch (err) {
+      if (abortController.signal.aborted) {
+        // Nothing generated yet: keep showing the previous answer
+        if (streamedContent) {
+          addMessages(buildInterruptedMessage(streamedContent, questionId));
+        }
+        return;
+      }
+
+      setSendMessageError("Failed to regenerate response");
+      toast.error("Failed to regenerate response");
+    } finally {
+      resetStreamingState();
+    }
+  };
+
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const saveChatTitle = async (title: string) => {
+    const token = await getToken();
+    await apiClient.put(`/api/chat/update/${chatId}`, { title }, token);
+    setCurrentChatData((prev) => (prev ? { ...prev, title } : prev));
+  };
+
+  const handleRenameChat = async (title: string) => {
+    if (!userId) return;
+    try {
+      await saveChatTitle(title);
+      toast.success("Chat renamed");
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to rename chat";
+      toast.error(errorMessage);
+    }
+  };
+
+  const generateChatTitle = async (question: string, answer: string) => {
+    let title = buildFallbackTitle(question);
+
+    try {
       const token = await getToken();
-      const response = await apiClient.post(
-        `/api/chat/${projectId}/chats/${currentChatData.id}/messages/create`,
-        { content },
+      const result = await apiClient.post(
+        `/api/chat/${chatId}/generate-title`,
+        { question, answer },
         token
       );
+      title = result.data?.title || title;
+    } catch (err) {
+      console.error("Title generation failed, using the question:", err);
+    }
 
-      // Replace optimistic message with real messages from server
-      const { userMessage, aiResponse } = response.data;
-
-      setCurrentChatData((prev) => {
-        if (!prev) return prev;
-        return {
-          ...prev,
-          messages: [
-            ...prev.messages.filter(
-              (msg) => msg.id !== optimisticUserMessage.id
-            ),
-            userMessage,
-            aiResponse,
-          ],
-        };
-      });
+    try {
+      await saveChatTitle(title);
+    } catch (err) {
+      console.error("Failed to save generated title:", err);
+    }
+  };
 
-      toast.success("Message sent");
+  const handleUpdateChatSettings = async (
+    settingsOverride: ChatSettingsOverride | null
+  ) => {
+    if (!userId) return;
+    try {
+      const token = await getToken();
+      await apiClient.put(
+        `/api/chat/update/${chatId}`,
+        { settings_override: settingsOverride },
+        token
+      );
+      setCurrentChatData((prev) =>
+        prev ? { ...prev, settings_override: settingsOverride } : prev
+      );
+      toast.success(
+        settingsOverride
+          ? "Chat settings updated"
+          : "Chat now uses project settings"
+      );
     } catch (err) {
-      setSendMessageError("Failed to send message");
-      toast.error("Failed to send message");
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to update chat settings";
+      toast.error(errorMessage);
+    }
+  };
 
-      // Remove optimistic message on error
-      setCurrentChatData((prev) => {
-        if (!prev) return prev;
-        return {
-          ...prev,
-          messages: prev.messages.filter((msg) => !msg.id.startsWith("temp-")),
-        };
-      });
+  const updateComparisonResult = (
+    runId: string,
+    strategy: string,
+    updates: Partial<ComparisonResult>
+  ) => {
+    setComparisonRuns((prev) =>
+      prev.map((run) =>
+        run.id === runId
+          ? {
+              ...run,
+              results: run.results.map((result) =>
+                result.strategy === strategy
+                  ? { ...result, ...updates }
+                  : result
+              ),
+            }
+          : run
+      )
+    );
+  };
+
+  const handleCompareQuestion = async (content: string) => {
+    if (!currentChatData || !userId) return;
+
+    const runId = `compare-${Date.now()}`;
+    const strategies = comparisonStrategies;
+    setComparisonRuns((prev) => [
+      ...prev,
+      {
+        id: runId,
+        question: content,
+        results: strategies.map((strategy) => ({
+          strategy,
+          status: "loading",
+        })),
+      },
+    ]);
+    setIsMessageSending(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      const token = await getToken();
+
+      // Each column is timed on its own so latencies are comparable
+      await Promise.allSettled(
+        strategies.map(async (strategy) => {
+          const startedAt = performance.now();
+          try {
+            const result = await apiClient.post(
+              `/api/chat/${projectId}/chats/${currentChatData.id}/compare`,
+              {
+                content,
+                settings_override: {
+                  ...currentChatData.settings_override,
+                  rag_strategy: strategy,
+                },
+              },
+              token,
+              abortController.signal
+            );
+            updateComparisonResult(runId, strategy, {
+              status: "completed",
+              message: result.data,
+              latency_ms: Math.round(performance.now() - startedAt),
+            });
+          } catch (err) {
+            updateComparisonResult(runId, strategy, {
+              status: "failed",
+              error: abortController.signal.aborted
+                ? "Stopped"
+                : err instanceof Error
+                ? err.message
+                : "Failed to answer",
+              latency_ms: Math.round(performance.now() - startedAt),
+            });
+          }
+        })
+      );
     } finally {
+      abortControllerRef.current = null;
       setIsMessageSending(false);
     }
   };
 
+  const handlePreferStrategy = async (runId: string, strategy: string) => {
+    const run = comparisonRuns.find((r) => r.id === runId);
+    const preferred = run?.results.find((r) => r.strategy === strategy);
+    if (!userId || !run || !preferred?.message) return;
+
+    const otherStrategies = run.results
+      .filter((r) => r.strategy !== strategy)
+      .map((r) => r.strategy);
+
+    try {
+      const token = await getToken();
+      await apiClient.post(
+        "/api/feedback",
+        {
+          message_id: preferred.message.id,
+          rating: "like",
+          category: "preferred-in-comparison",
+          comment: `Preferred ${strategy} over ${otherStrategies.join(", ")}`,
+        },
+        token
+      );
+
+      setComparisonRuns((prev) =>
+        prev.map((r) =>
+          r.id === runId ? { ...r, preferred_strategy: strategy } : r
+        )
+      );
+      toast.success("Preference recorded");
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to record preference";
+      toast.error(errorMessage);
+    }
+  };
+
+  // Throws so the template form stays filled when saving fails
+  const handleCreateTemplate = async (name: string, body: string) => {
+    try {
+      const token = await getToken();
+      const result = await apiClient.post(
+        "/api/templates/create",
+        { name, body },
+        token
+      );
+      setPromptTemplates((prev) => [...prev, result.data]);
+      toast.success("Template saved");
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to save template";
+      toast.error(errorMessage);
+      throw err;
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    try {
+      const token = await getToken();
+      await apiClient.delete(`/api/templates/delete/${templateId}`, token);
+      setPromptTemplates((prev) =>
+        prev.filter((template) => template.id !== templateId)
+      );
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to delete template";
+      toast.error(errorMessage);
+    }
+  };
+
   /*
    ! User Interaction Functions:
+   * handleSelectBranch: Show the previous or next sibling of a message
+   * handleOpenCitation: Open the cited document at the cited chunk
    * handleFeedbackOpen: Open the feedback modal
    * handleFeedbackSubmit: Submit the feedback
   */
 
+  const handleSelectBranch = (messageId: string, direction: -1 | 1) => {
+    setCurrentChatData((prev) => {
+      const message = prev?.messages.find((msg) => msg.id === messageId);
+      if (!prev || !message) return prev;
+
+      const siblings = getSiblings(prev, message);
+      const target =
+        siblings[siblings.findIndex((msg) => msg.id === messageId) + direction];
+      return target ? selectBranch(prev, target) : prev;
+    });
+  };
+
+  // Older citations only carry the filename
+  const findCitedDocument = (citation: Citation) =>
+    projectDocuments.find((doc) =>
+      citation.document_id
+        ? doc.id === citation.document_id
+        : doc.filename === citation.filename
+    );
+
+  const handleOpenCitation = (citation: Citation) => {
+    if (!findCitedDocument(citation)) {
+      toast.error("Source document is no longer available");
+      return;
+    }
+
+    setOpenCitation(citation);
+  };
+
   const handleFeedbackOpen = (messageId: string, type: "like" | "dislike") => {
     setFeedbackModal({ messageId, type });
   };
 
-  const handleFeedbackSubmit = async (feedback: {
-    rating: "like" | "dislike";
-    comment?: string;
-    category?: string;
-  }) => {
+  const handleFeedbackSubmit = async (feedback: MessageFeedback) => {
     if (!userId || !feedbackModal) return;
 
     try {
@@ -144,6 +803,17 @@ export default function ProjectChatPage({ params }: ProjectChatPageProps) {
         token
       );
 
+      // Keep it on the message so exports include it
+      setCurrentChatData((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          messages: prev.messages.map((msg) =>
+            msg.id === feedbackModal.messageId ? { ...msg, feedback } : msg
+          ),
+        };
+      });
+
       toast.success("Thanks for your feedback!");
     } catch (error) {
       toast.error("Failed to submit feedback. Please try again.");
@@ -160,10 +830,16 @@ export default function ProjectChatPage({ params }: ProjectChatPageProps) {
 
       try {
         const token = await getToken();
-        const result = await apiClient.get(`/api/chat/${chatId}`, token);
-        const chatData = result.data;
+        const chatRes = await apiClient.get(`/api/chat/${chatId}`, token);
+        const chatData = chatRes.data;
 
-        setCurrentChatData(chatData);
+        const normalizedChat = normalizeMessageTree(chatData);
+        setCurrentChatData(
+          targetMessageId
+            ? selectPathTo(normalizedChat, targetMessageId)
+            : normalizedChat
+        );
+        setHighlightedMessageId(targetMessageId);
         toast.success("Chat loaded");
       } catch (err) {
         toast.error("Failed to load chat. Please try again.");
@@ -173,7 +849,63 @@ export default function ProjectChatPage({ params }: ProjectChatPageProps) {
     };
 
     loadChat();
-  }, [userId, chatId]);
+  }, [userId, chatId, projectId, targetMessageId]);
+
+  // Documents and settings only feed citations and defaults, so a failure doesn't block the chat
+  useEffect(() => {
+    const loadProjectContext = async () => {
+      if (!userId) return;
+      const token = await getToken();
+      const [documentsResult, settingsResult] = await Promise.allSettled([
+        apiClient.get(`/api/project/${projectId}/files`, token),
+        apiClient.get(`/api/project/${projectId}/settings`, token),
+      ]);
+
+      if (documentsResult.status === "fulfilled") {
+        setProjectDocuments(documentsResult.value.data);
+      } else {
+        console.error(
+          "Failed to load project documents:",
+          documentsResult.reason
+        );
+      }
+      if (settingsResult.status === "fulfilled") {
+        setProjectSettings(settingsResult.value.data);
+      } else {
+        console.error(
+          "Failed to load project settings:",
+          settingsResult.reason
+        );
+      }
+    };
+
+    loadProjectContext();
+  }, [userId, projectId, getToken]);
+
+  // Templates are optional, the chat still works if they fail to load
+  useEffect(() => {
+    const loadTemplates = async () => {
+      if (!userId) return;
+      try {
+        const token = await getToken();
+        const result = await apiClient.get("/api/templates", token);
+        setPromptTemplates(result.data);
+      } catch (err) {
+        console.error("Failed to load prompt templates:", err);
+      }
+    };
+
+    loadTemplates();
+  }, [userId, getToken]);
+
+  // Let the flash play once, then drop the highlight
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  const citedDocument = openCitation ? findCitedDocument(openCitation) : null;
 
   if (isLoadingChatData) {
     return <LoadingSpinner message="Loading chat..." />;
@@ -188,9 +920,38 @@ export default function ProjectChatPage({ params }: ProjectChatPageProps) {
       <ChatInterface
         chat={currentChatData}
         projectId={projectId}
-        onSendMessage={handleSendMessage}
+        onSendMessage={handleSendWithAttachments}
+        onStopGenerating={handleStopGenerating}
+        onRetryMessage={handleRetryMessage}
+        onRegenerateMessage={handleRegenerateMessage}
+        onEditMessage={handleEditMessage}
+        onSelectBranch={handleSelectBranch}
+        regeneratingMessageId={regeneratingMessageId}
+        onOpenCitation={handleOpenCitation}
+        onRenameChat={handleRenameChat}
+        projectSettings={projectSettings}
+        onUpdateChatSettings={handleUpdateChatSettings}
+        isCompareMode={isCompareMode}
+        onToggleCompareMode={() => setIsCompareMode(!isCompareMode)}
+        comparisonRuns={comparisonRuns}
+        comparisonStrategies={comparisonStrategies}
+        onChangeComparisonStrategies={setComparisonStrategies}
+        onCompareQuestion={handleCompareQuestion}
+        onPreferStrategy={handlePreferStrategy}
+        promptTemplates={promptTemplates}
+        projectDocuments={projectDocuments}
+        onCreateTemplate={handleCreateTemplate}
+        onDeleteTemplate={handleDeleteTemplate}
+        onSlashCommand={handleSlashCommand}
+        isFreshStart={isFreshStart}
+        onCancelFreshStart={() => setIsFreshStart(false)}
+        highlightedMessageId={highlightedMessageId}
         onFeedback={handleFeedbackOpen}
         isLoading={isMessageSending}
+        streamingMessage={streamingMessage}
+        isStreaming={isStreaming}
+        agentStatus={agentStatus}
+        streamingToolCalls={streamingToolCalls}
         error={sendMessageError}
         onDismissError={() => setSendMessageError(null)}
       />
@@ -200,6 +961,21 @@ export default function ProjectChatPage({ params }: ProjectChatPageProps) {
         onSubmit={handleFeedbackSubmit}
         onCancel={() => setFeedbackModal(null)}
       />
+      {citedDocument && openCitation && (
+        <FileDetailsModal
+          key={`${citedDocument.id}-${openCitation.chunk_id}`}
+          document={citedDocument}
+          initialChunkId={openCitation.chunk_id}
+          onClose={() => setOpenCitation(null)}
+          onDocumentUpdated={(updatedDocument) =>
+            setProjectDocuments((prev) =>
+              prev.map((doc) =>
+                doc.id === updatedDocument.id ? updatedDocument : doc
+              )
+            )
+          }
+        />
+      )}
     </>
   );
 }
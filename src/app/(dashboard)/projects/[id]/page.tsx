@@ -1,17 +1,69 @@
 "use client";
 import { useParams } from "next/navigation";
-import React, { useEffect, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { ConversationsList } from "@/components/projects/ConversationsList";
 import { FileDetailsModal } from "@/components/projects/FileDetailsModal";
 import { KnowledgeBaseSidebar } from "@/components/projects/KnowledgeBaseSidebar";
-import { Project, Chat, ProjectDocument, ProjectSettings } from "@/types";
+import {
+  Project,
+  Chat,
+  ProjectDocument,
+  ProjectSettings,
+  MessageSearchResult,
+  DuplicateResolution,
+  UploadStatus,
+  UploadStep,
+  UploadTask,
+} from "@/types";
 import { useAuth } from "@clerk/nextjs";
 import { apiClient } from "@/lib";
+import { createDefaultChatTitle } from "@/lib/chatTitle";
+import {
+  ConversationView,
+  loadConversationView,
+  saveConversationView,
+} from "@/lib/conversationView";
+import { clearChatDraft, hasChatDraft } from "@/lib/chatDrafts";
+import { findDuplicateDocument, hashFile } from "@/lib/fileHash";
+import { getProcessingError } from "@/lib/documentProcessing";
+import {
+  clearMultipartUpload,
+  getFileFingerprint,
+  listMultipartUploads,
+  loadMultipartUpload,
+  MULTIPART_PART_SIZE,
+  saveMultipartUpload,
+  shouldUseMultipart,
+  StoredMultipartUpload,
+  UploadedPart,
+  uploadParts,
+} from "@/lib/multipartUpload";
 import toast from "react-hot-toast";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
 import { NotFound } from "@/components/ui/NotFound";
 import { useRouter } from "next/navigation";
 
+// How long a deleted chat can be restored before the server delete goes out
+const CHAT_DELETE_UNDO_MS = 6000;
+
+const MAX_CONCURRENT_UPLOADS = 3;
+const ACTIVE_UPLOAD_STATUSES: UploadStatus[] = [
+  "presigning",
+  "uploading",
+  "confirming",
+];
+const FINISHED_UPLOAD_STATUSES: UploadStatus[] = [
+  "completed",
+  "failed",
+  "cancelled",
+];
+
 interface ProjectData {
   project: Project | null;
   chats: Chat[];
@@ -44,15 +96,49 @@ const ProjectPage: React.FC = () => {
     null
   );
   const [isCreatingChat, setIsCreatingChat] = useState(false);
+  const [conversationView, setConversationView] = useState<ConversationView>(
+    () => loadConversationView(projectId)
+  );
+  const [uploadTasks, setUploadTasks] = useState<UploadTask[]>([]);
+  const [interruptedUploads, setInterruptedUploads] = useState<
+    StoredMultipartUpload[]
+  >(() => listMultipartUploads(projectId));
+
+  // * Chat deletes still inside their undo window
+  const pendingChatDeletesRef = useRef(
+    new Set<{
+      timeout: ReturnType<typeof setTimeout>;
+      send: (keepalive: boolean) => Promise<void>;
+      // The Undo toast, which can't undo anything once the deletes are sent
+      toastId: string;
+    }>()
+  );
+
+  // * Upload Queue Refs - read by the scheduler outside of render
+  const uploadTasksRef = useRef<UploadTask[]>([]);
+  const uploadControllersRef = useRef(new Map<string, AbortController>());
+  // Set on unmount so aborted tasks don't start the rest of the queue behind our back
+  const hasLeftPageRef = useRef(false);
 
   /*
   ! Business Logic Functions - Core operations for this project:
   * - loadProjectData: Load all project data from the server
 
   * - handleCreateNewChat: Create a new conversation in this project
-  * - handleDeleteChat: Remove a conversation from the project
-  * - handleDocumentUpload: Process and add new documents to knowledge base
+  * - handleRenameChat: Change the title of a conversation
+  * - handleDeleteChats: Remove conversations from the project, with undo
+  * - handleTogglePinChat: Pin a conversation to the top of the list, or unpin it
+  * - handleSearchMessages: Find messages across all conversations
+  * - handleDocumentUpload: Queue new documents for upload to the knowledge base
+  * - checkForDuplicate: Hash a file and hold it back if the project or the queue already has it
+  * - handleResolveDuplicate: Skip, replace or keep both for a duplicate file
+  * - handleUploadNewVersion: Queue a file as the next version of an existing document
+  * - handleDocumentUpdated: Swap in a document changed elsewhere (e.g. a version rollback)
+  * - runUploadTask: Upload one queued file, resuming at the step that failed
+  * - uploadFileInParts: Send a large file to S3 in parts, skipping parts sent before a reload
+  * - handleCancelUpload / handleRetryUpload: Stop or restart a single upload
   * - handleDocumentDelete: Remove documents from knowledge base
+  * - handleReprocessDocuments: Run the pipeline again from the failed step or from scratch
   * - handleUrlAdd: Add web content to the knowledge base
   * - handleDraftSettings: Update project configuration locally
   * - handlePublishSettings: Save project settings to the server
@@ -94,6 +180,33 @@ const ProjectPage: React.FC = () => {
     loadProjectData();
   }, [userId, projectId, getToken]);
 
+  // Leaving the page ends the undo window, so pending chat deletes go out right away
+  useEffect(() => {
+    const pendingDeletes = pendingChatDeletesRef.current;
+    const flushPendingDeletes = () =>
+      pendingDeletes.forEach((batch) => {
+        clearTimeout(batch.timeout);
+        toast.dismiss(batch.toastId);
+        batch.send(true);
+      });
+
+    window.addEventListener("pagehide", flushPendingDeletes);
+    return () => {
+      window.removeEventListener("pagehide", flushPendingDeletes);
+      flushPendingDeletes();
+    };
+  }, []);
+
+  // Stop in-flight uploads when leaving the project
+  useEffect(() => {
+    hasLeftPageRef.current = false;
+    const controllers = uploadControllersRef.current;
+    return () => {
+      hasLeftPageRef.current = true;
+      controllers.forEach((controller) => controller.abort());
+    };
+  }, []);
+
   useEffect(() => {
     const hasProcessingDocuments = data.documents.some(
       (doc) =>
@@ -131,12 +244,11 @@ const ProjectPage: React.FC = () => {
     try {
       setIsCreatingChat(true);
       const token = await getToken();
-      const chatNumber = Date.now() % 10000; // Generate a random chat number
 
       const response = await apiClient.post(
         "/api/chat/create",
         {
-          title: `Chat #${chatNumber}`,
+          title: createDefaultChatTitle(),
           project_id: projectId,
         },
         token
@@ -163,103 +275,541 @@ const ProjectPage: React.FC = () => {
     }
   };
 
-  const handleDeleteChat = async (chatId: string) => {
+  const handleRenameChat = async (chatId: string, title: string) => {
     if (!userId) return;
     try {
       const token = await getToken();
-      await apiClient.delete(`/api/chat/delete/${chatId}`, token);
+      await apiClient.put(`/api/chat/update/${chatId}`, { title }, token);
 
       setData((prev) => ({
         ...prev,
-        chats: prev.chats.filter((chat) => chat.id !== chatId),
+        chats: prev.chats.map((chat) =>
+          chat.id === chatId ? { ...chat, title } : chat
+        ),
       }));
-      toast.success("Chat deleted successfully");
+      toast.success("Chat renamed");
     } catch (err) {
       const errorMessage =
-        err instanceof Error ? err.message : "Failed to delete chat";
+        err instanceof Error ? err.message : "Failed to rename chat";
       toast.error(errorMessage);
     }
   };
 
-  const handleDocumentUpload = async (files: File[]) => {
-    console.log("Upload files", files);
+  // Chats disappear right away but are only deleted on the server once the undo window passes
+  const handleDeleteChats = (chatIds: string[]) => {
     if (!userId) return;
+    const removedChats = data.chats.filter((chat) => chatIds.includes(chat.id));
 
-    try {
-      console.log("Uploading files", files);
-      const authToken = await getToken();
-      const newlyUploadedDocuments: ProjectDocument[] = [];
-
-      const fileUploadPromises = files.map(async (selectedFile) => {
-        // Step 1: Request presigned URL from our server for S3 upload
-        const presignedUrlPayload = {
-          file_name: selectedFile.name,
-          file_size: selectedFile.size,
-          file_type: selectedFile.type,
-        };
+    setData((prev) => ({
+      ...prev,
+      chats: prev.chats.filter((chat) => !chatIds.includes(chat.id)),
+    }));
+
+    const restoreChats = (chats: Chat[]) =>
+      setData((prev) => ({ ...prev, chats: [...chats, ...prev.chats] }));
 
-        const presignedUrlResponse = await apiClient.post(
-          `/api/project/${projectId}/files/get-presigned-url`,
-          presignedUrlPayload,
-          authToken
+    // keepalive is set when the page is closing and the request has to outlive it
+    const sendDeletes = async (keepalive: boolean) => {
+      pendingChatDeletesRef.current.delete(deleteBatch);
+      try {
+        const token = await getToken();
+        const results = await Promise.allSettled(
+          removedChats.map((chat) =>
+            apiClient.delete(
+              `/api/chat/delete/${chat.id}`,
+              token,
+              undefined,
+              keepalive
+            )
+          )
+        );
+        const failedChats = removedChats.filter(
+          (_chat, index) => results[index].status === "rejected"
         );
+        removedChats
+          .filter((chat) => !failedChats.includes(chat))
+          .forEach((chat) => clearChatDraft(chat.id));
+        if (failedChats.length > 0) {
+          restoreChats(failedChats);
+          toast.error(`Failed to delete ${failedChats.length} chat(s)`);
+        }
+      } catch (err) {
+        restoreChats(removedChats);
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to delete chats";
+        toast.error(errorMessage);
+      }
+    };
 
-        const { presigned_url: s3PresignedUrl, s3_key: fileS3Key } =
-          presignedUrlResponse.data;
+    const toastId = toast(
+      (t) => (
+        <span className="flex items-center gap-3 text-sm">
+          {removedChats.length === 1
+            ? "Chat deleted"
+            : `${removedChats.length} chats deleted`}
+          <button
+            onClick={() => {
+              clearTimeout(deleteBatch.timeout);
+              pendingChatDeletesRef.current.delete(deleteBatch);
+              restoreChats(removedChats);
+              toast.dismiss(t.id);
+            }}
+            className="font-medium text-blue-600 hover:text-blue-500"
+          >
+            Undo
+          </button>
+        </span>
+      ),
+      { duration: CHAT_DELETE_UNDO_MS }
+    );
 
-        console.log("S3 Presigned URL received:", s3PresignedUrl);
-        console.log("File S3 Key assigned:", fileS3Key);
+    const deleteBatch = {
+      timeout: setTimeout(() => sendDeletes(false), CHAT_DELETE_UNDO_MS),
+      send: sendDeletes,
+      toastId,
+    };
+    pendingChatDeletesRef.current.add(deleteBatch);
+  };
 
-        // Step 2: Upload the actual file directly to S3 using presigned URL
-        const s3DirectUploadResponse = await apiClient.uploadToS3(
-          s3PresignedUrl,
-          selectedFile
-        );
+  const handleTogglePinChat = async (chatId: string) => {
+    if (!userId) return;
+    const chat = data.chats.find((c) => c.id === chatId);
+    if (!chat) return;
 
-        if (!s3DirectUploadResponse.ok) {
-          throw new Error(
-            `S3 direct upload failed: ${s3DirectUploadResponse.status}`
-          );
-        }
+    try {
+      const token = await getToken();
+      const isPinned = !chat.is_pinned;
+      await apiClient.put(
+        `/api/chat/update/${chatId}`,
+        { is_pinned: isPinned },
+        token
+      );
 
-        // Step 3: Tell our server the S3 upload is complete (triggers background processing)
-        const uploadConfirmationPayload = {
-          s3_key: fileS3Key,
-        };
+      setData((prev) => ({
+        ...prev,
+        chats: prev.chats.map((c) =>
+          c.id === chatId ? { ...c, is_pinned: isPinned } : c
+        ),
+      }));
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to update chat";
+      toast.error(errorMessage);
+    }
+  };
+
+  // Memoised because the search box re-runs its debounced effect when this changes
+  const handleSearchMessages = useCallback(
+    async (query: string): Promise<MessageSearchResult[]> => {
+      const token = await getToken();
+      const result = await apiClient.get(
+        `/api/project/${projectId}/chats/search?q=${encodeURIComponent(query)}`,
+        token
+      );
+      return result.data;
+    },
+    [projectId, getToken]
+  );
 
-        const uploadConfirmationResponse = await apiClient.post(
-          `/api/project/${projectId}/files/confirm-upload-to-s3`,
-          uploadConfirmationPayload,
-          authToken
+  // Keeps the ref in step with state so the scheduler sees the latest queue
+  const updateUploadTasks = (update: (tasks: UploadTask[]) => UploadTask[]) => {
+    uploadTasksRef.current = update(uploadTasksRef.current);
+    setUploadTasks(uploadTasksRef.current);
+  };
+
+  const updateUploadTask = (taskId: string, updates: Partial<UploadTask>) =>
+    updateUploadTasks((tasks) =>
+      tasks.map((task) => (task.id === taskId ? { ...task, ...updates } : task))
+    );
+
+  const startQueuedUploads = () => {
+    if (hasLeftPageRef.current) return;
+    const tasks = uploadTasksRef.current;
+    const activeCount = tasks.filter((task) =>
+      ACTIVE_UPLOAD_STATUSES.includes(task.status)
+    ).length;
+
+    tasks
+      .filter((task) => task.status === "queued")
+      .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - activeCount))
+      .forEach((task) => runUploadTask(task.id));
+  };
+
+  const abortMultipartUpload = async (s3Key: string, uploadId: string) => {
+    try {
+      const token = await getToken();
+      await apiClient.post(
+        `/api/project/${projectId}/files/multipart/abort`,
+        { s3_key: s3Key, upload_id: uploadId },
+        token
+      );
+    } catch (err) {
+      // S3 lifecycle rules clean up whatever this misses
+      console.error("Failed to abort multipart upload:", err);
+    }
+  };
+
+  const uploadFileInParts = async (
+    taskId: string,
+    file: File,
+    s3Key: string,
+    uploadId: string,
+    signal: AbortSignal
+  ) => {
+    const fingerprint = getFileFingerprint(file);
+    const saved = loadMultipartUpload(projectId, fingerprint);
+    const completedParts: UploadedPart[] =
+      saved?.upload_id === uploadId ? [...saved.parts] : [];
+
+    const parts = await uploadParts({
+      file,
+      completedParts,
+      // Fresh token per batch, a large upload can outlive a single one
+      getPartUrls: async (partNumbers) => {
+        const token = await getToken();
+        const partUrlsResponse = await apiClient.post(
+          `/api/project/${projectId}/files/multipart/part-urls`,
+          { s3_key: s3Key, upload_id: uploadId, part_numbers: partNumbers },
+          token,
+          signal
         );
+        return partUrlsResponse.data.part_urls;
+      },
+      onPartCompleted: (part) => {
+        completedParts.push(part);
+        saveMultipartUpload(projectId, fingerprint, {
+          upload_id: uploadId,
+          s3_key: s3Key,
+          filename: file.name,
+          file_size: file.size,
+          parts: completedParts,
+        });
+      },
+      onProgress: (uploadedBytes) =>
+        updateUploadTask(taskId, { uploaded_bytes: uploadedBytes }),
+      signal,
+    });
 
-        const { file_update_result } = uploadConfirmationResponse.data;
+    const token = await getToken();
+    await apiClient.post(
+      `/api/project/${projectId}/files/multipart/complete`,
+      { s3_key: s3Key, upload_id: uploadId, parts },
+      token,
+      signal
+    );
+    clearMultipartUpload(projectId, fingerprint);
+  };
 
-        newlyUploadedDocuments.push(file_update_result);
-      });
+  // Runs presign -> S3 upload -> confirm, skipping steps an earlier attempt already finished
+  const runUploadTask = async (taskId: string) => {
+    const task = uploadTasksRef.current.find((t) => t.id === taskId);
+    if (!task || hasLeftPageRef.current) return;
+
+    const controller = new AbortController();
+    uploadControllersRef.current.set(taskId, controller);
+    const isMultipart = shouldUseMultipart(task.file);
+    let step: UploadStep = "presign";
+    let {
+      presigned_url: presignedUrl,
+      s3_key: s3Key,
+      upload_id: uploadId,
+    } = task;
+
+    try {
+      updateUploadTask(taskId, { status: "presigning", error: undefined });
+      const token = await getToken();
+      // A cancel while waiting on the token must not be overwritten by the steps below
+      if (controller.signal.aborted) return;
+
+      // Step 1: Request presigned URL from our server for S3 upload,
+      // or start (or pick up) a multipart upload for large files
+      if (!s3Key) {
+        const fileDetails = {
+          file_name: task.file.name,
+          file_size: task.file.size,
+          file_type: task.file.type,
+          content_hash: task.content_hash,
+        };
+
+        if (isMultipart) {
+          const fingerprint = getFileFingerprint(task.file);
+          const saved = loadMultipartUpload(projectId, fingerprint);
+          if (saved) {
+            ({ upload_id: uploadId, s3_key: s3Key } = saved);
+          } else {
+            const startResponse = await apiClient.post(
+              `/api/project/${projectId}/files/multipart/start`,
+              {
+                ...fileDetails,
+                part_count: Math.ceil(task.file.size / MULTIPART_PART_SIZE),
+              },
+              token,
+              controller.signal
+            );
+            uploadId = startResponse.data.upload_id as string;
+            s3Key = startResponse.data.s3_key as string;
+            saveMultipartUpload(projectId, fingerprint, {
+              upload_id: uploadId,
+              s3_key: s3Key,
+              filename: task.file.name,
+              file_size: task.file.size,
+              parts: [],
+            });
+          }
+          setInterruptedUploads((uploads) =>
+            uploads.filter((upload) => upload.fingerprint !== fingerprint)
+          );
+        } else {
+          const presignedUrlResponse = await apiClient.post(
+            `/api/project/${projectId}/files/get-presigned-url`,
+            fileDetails,
+            token,
+            controller.signal
+          );
+          presignedUrl = presignedUrlResponse.data.presigned_url as string;
+          s3Key = presignedUrlResponse.data.s3_key as string;
+        }
+        updateUploadTask(taskId, {
+          presigned_url: presignedUrl,
+          s3_key: s3Key,
+          upload_id: uploadId,
+        });
+      }
+
+      // Step 2: Upload the actual file directly to S3
+      step = "upload";
+      if (!task.is_uploaded) {
+        if (controller.signal.aborted) return;
+        updateUploadTask(taskId, { status: "uploading", uploaded_bytes: 0 });
+        if (isMultipart && uploadId) {
+          await uploadFileInParts(
+            taskId,
+            task.file,
+            s3Key as string,
+            uploadId,
+            controller.signal
+          );
+        } else {
+          await apiClient.uploadToS3WithProgress(
+            presignedUrl as string,
+            task.file,
+            (loadedBytes) =>
+              updateUploadTask(taskId, { uploaded_bytes: loadedBytes }),
+            controller.signal
+          );
+        }
+        updateUploadTask(taskId, {
+          is_uploaded: true,
+          uploaded_bytes: task.file.size,
+        });
+      }
 
-      await Promise.allSettled(fileUploadPromises);
+      // Step 3: Tell our server the S3 upload is complete (triggers background processing)
+      step = "confirm";
+      updateUploadTask(taskId, { status: "confirming" });
+      // New versions are confirmed against their document so it keeps its id
+      const uploadConfirmationResponse = await apiClient.post(
+        task.target_document_id
+          ? `/api/project/${projectId}/files/${task.target_document_id}/versions/confirm-upload-to-s3`
+          : `/api/project/${projectId}/files/confirm-upload-to-s3`,
+        { s3_key: s3Key },
+        await getToken(),
+        controller.signal
+      );
+      const { file_update_result } = uploadConfirmationResponse.data;
 
-      if (newlyUploadedDocuments.length > 0) {
-        // Update the local state with the newly uploaded documents
+      if (task.target_document_id) {
+        handleDocumentUpdated(file_update_result);
+      } else {
         setData((previousData) => ({
           ...previousData,
-          documents: [...previousData.documents, ...newlyUploadedDocuments],
+          documents: [...previousData.documents, file_update_result],
         }));
-        toast.success(
-          `Successfully uploaded ${newlyUploadedDocuments.length} file(s)`
-        );
+      }
+      updateUploadTask(taskId, { status: "completed" });
+
+      if (task.replaces_document_id) {
+        removeReplacedDocument(task.replaces_document_id);
       }
     } catch (uploadError) {
-      const errorMessage =
-        uploadError instanceof Error
-          ? uploadError.message
-          : "Failed to upload files";
+      // Cancelled tasks were already marked by handleCancelUpload
+      if (controller.signal.aborted) return;
       console.error("File upload error:", uploadError);
+      updateUploadTask(taskId, {
+        status: "failed",
+        failed_step: step,
+        error:
+          uploadError instanceof Error
+            ? uploadError.message
+            : "Failed to upload file",
+      });
+    } finally {
+      uploadControllersRef.current.delete(taskId);
+      startQueuedUploads();
+    }
+  };
+
+  const removeReplacedDocument = async (documentId: string) => {
+    try {
+      const token = await getToken();
+      await apiClient.delete(
+        `/api/project/${projectId}/files/delete/${documentId}`,
+        token
+      );
+      setData((previousData) => ({
+        ...previousData,
+        documents: previousData.documents.filter(
+          (doc) => doc.id !== documentId
+        ),
+      }));
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to remove old document";
       toast.error(errorMessage);
     }
   };
 
+  const checkForDuplicate = async (
+    taskId: string,
+    file: File,
+    documents: ProjectDocument[]
+  ) => {
+    let contentHash: string | null = null;
+    try {
+      contentHash = await hashFile(file);
+    } catch (err) {
+      // Not being able to hash shouldn't block the upload
+      console.error("Failed to hash file:", err);
+    }
+
+    // The file may have been cancelled while it was hashing
+    const task = uploadTasksRef.current.find((t) => t.id === taskId);
+    if (task?.status !== "hashing") return;
+
+    // A new version matching the document it updates isn't a duplicate to resolve
+    const duplicate = contentHash
+      ? findDuplicateDocument(
+          contentHash,
+          documents.filter((doc) => doc.id !== task.target_document_id)
+        )
+      : null;
+    // Files are hashed in order, so an earlier copy in the queue already has its hash
+    const queuedDuplicate =
+      contentHash && !duplicate
+        ? uploadTasksRef.current.find(
+            (t) =>
+              t.id !== taskId &&
+              t.status !== "cancelled" &&
+              t.content_hash === contentHash
+          )
+        : undefined;
+    updateUploadTask(taskId, {
+      status: duplicate || queuedDuplicate ? "duplicate" : "queued",
+      content_hash: contentHash ?? undefined,
+      duplicate_of: duplicate
+        ? { id: duplicate.id, filename: duplicate.filename }
+        : queuedDuplicate
+        ? { id: queuedDuplicate.id, filename: queuedDuplicate.file.name }
+        : undefined,
+      duplicate_in_queue: !!queuedDuplicate,
+    });
+    startQueuedUploads();
+  };
+
+  const enqueueUploads = (files: File[], targetDocumentId?: string) => {
+    if (!userId || files.length === 0) return;
+
+    const newTasks: UploadTask[] = files.map((file, index) => ({
+      id: `upload-${Date.now()}-${index}`,
+      file,
+      status: "hashing",
+      uploaded_bytes: 0,
+      target_document_id: targetDocumentId,
+    }));
+    updateUploadTasks((tasks) => [...tasks, ...newTasks]);
+    newTasks.forEach((task) =>
+      checkForDuplicate(task.id, task.file, data.documents)
+    );
+  };
+
+  const handleDocumentUpload = (files: File[]) => enqueueUploads(files);
+
+  const handleUploadNewVersion = (documentId: string, file: File) =>
+    enqueueUploads([file], documentId);
+
+  const handleDocumentUpdated = (updatedDocument: ProjectDocument) =>
+    setData((previousData) => ({
+      ...previousData,
+      documents: previousData.documents.map((doc) =>
+        doc.id === updatedDocument.id ? updatedDocument : doc
+      ),
+    }));
+
+  const handleResolveDuplicate = (
+    taskId: string,
+    resolution: DuplicateResolution
+  ) => {
+    if (resolution === "skip") {
+      updateUploadTasks((tasks) => tasks.filter((task) => task.id !== taskId));
+      return;
+    }
+    const task = uploadTasksRef.current.find((t) => t.id === taskId);
+    updateUploadTask(taskId, {
+      status: "queued",
+      replaces_document_id:
+        resolution === "replace" ? task?.duplicate_of?.id : undefined,
+    });
+    startQueuedUploads();
+  };
+
+  const handleCancelUpload = (taskId: string) => {
+    const task = uploadTasksRef.current.find((t) => t.id === taskId);
+    updateUploadTask(taskId, { status: "cancelled" });
+    uploadControllersRef.current.get(taskId)?.abort();
+
+    // A cancelled multipart upload won't be resumed, so drop its parts
+    if (task?.upload_id && task.s3_key) {
+      clearMultipartUpload(projectId, getFileFingerprint(task.file));
+      abortMultipartUpload(task.s3_key, task.upload_id);
+    }
+  };
+
+  const handleDiscardInterruptedUpload = (fingerprint: string) => {
+    const upload = interruptedUploads.find(
+      (u) => u.fingerprint === fingerprint
+    );
+    if (!upload) return;
+    clearMultipartUpload(projectId, fingerprint);
+    setInterruptedUploads((uploads) =>
+      uploads.filter((u) => u.fingerprint !== fingerprint)
+    );
+    abortMultipartUpload(upload.s3_key, upload.upload_id);
+  };
+
+  const handleRetryUpload = (taskId: string) => {
+    const task = uploadTasksRef.current.find((t) => t.id === taskId);
+    // The presigned URL may have expired by now, so a failed single PUT presigns again.
+    // Multipart uploads request fresh part URLs on every attempt anyway
+    const needsNewPresignedUrl =
+      task?.failed_step === "upload" && !task.upload_id;
+
+    updateUploadTask(taskId, {
+      status: "queued",
+      error: undefined,
+      ...(needsNewPresignedUrl && {
+        presigned_url: undefined,
+        s3_key: undefined,
+      }),
+    });
+    startQueuedUploads();
+  };
+
+  const handleClearFinishedUploads = () => {
+    updateUploadTasks((tasks) =>
+      tasks.filter((task) => !FINISHED_UPLOAD_STATUSES.includes(task.status))
+    );
+  };
+
   const handleDocumentDelete = async (documentId: string) => {
     console.log("Document Deleted");
     try {
@@ -283,6 +833,55 @@ const ProjectPage: React.FC = () => {
     }
   };
 
+  const handleReprocessDocuments = async (
+    documentIds: string[],
+    fromScratch: boolean
+  ) => {
+    if (!userId) return;
+    const documents = data.documents.filter((doc) =>
+      documentIds.includes(doc.id)
+    );
+
+    try {
+      const token = await getToken();
+      const results = await Promise.allSettled(
+        documents.map((doc) =>
+          apiClient.post(
+            `/api/project/${projectId}/files/${doc.id}/reprocess`,
+            {
+              from_step: fromScratch
+                ? null
+                : getProcessingError(doc)?.step ?? null,
+            },
+            token
+          )
+        )
+      );
+
+      // Updated documents are back in the pipeline, so polling picks them up
+      const reprocessedDocuments = results.flatMap((result) =>
+        result.status === "fulfilled"
+          ? [result.value.data as ProjectDocument]
+          : []
+      );
+      reprocessedDocuments.forEach(handleDocumentUpdated);
+
+      const failedCount = documents.length - reprocessedDocuments.length;
+      if (failedCount > 0) {
+        toast.error(`Failed to reprocess ${failedCount} document(s)`);
+      }
+      if (reprocessedDocuments.length > 0) {
+        toast.success(
+          `Reprocessing ${reprocessedDocuments.length} document(s)`
+        );
+      }
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to reprocess documents";
+      toast.error(errorMessage);
+    }
+  };
+
   const handleUrlAdd = async (url: string) => {
     console.log("Add URL", url);
 
@@ -359,6 +958,8 @@ const ProjectPage: React.FC = () => {
   /*
   ! User Interaction Functions:
   * - handleChatClick: Navigate to a specific conversation when clicked
+  * - handleSearchResultClick: Open a conversation at the matched message
+  * - handleChangeConversationView: Sort and filter the conversations list
   * - handleOpenDocument: Show document details when user selects it
   */
 
@@ -367,11 +968,28 @@ const ProjectPage: React.FC = () => {
     router.push(`/projects/${projectId}/chats/${chatId}`);
   };
 
+  const handleSearchResultClick = (result: MessageSearchResult) => {
+    router.push(
+      `/projects/${projectId}/chats/${result.chat_id}?message=${result.message_id}`
+    );
+  };
+
+  const handleChangeConversationView = (view: ConversationView) => {
+    setConversationView(view);
+    saveConversationView(projectId, view);
+  };
+
   const handleOpenDocument = (documentId: string) => {
     console.log("Open document", documentId);
     setSelectedDocumentId(documentId);
   };
 
+  // Chats with unsent input saved in this browser
+  const draftChatIds = useMemo(
+    () => data.chats.filter((chat) => hasChatDraft(chat.id)).map((c) => c.id),
+    [data.chats]
+  );
+
   const selectedDocument = selectedDocumentId
     ? data.documents.find((doc) => doc.id == selectedDocumentId)
     : null;
@@ -394,7 +1012,14 @@ const ProjectPage: React.FC = () => {
           loading={false}
           onCreateNewChat={handleCreateNewChat}
           onChatClick={handleChatClick}
-          onDeleteChat={handleDeleteChat}
+          onRenameChat={handleRenameChat}
+          onDeleteChats={handleDeleteChats}
+          onTogglePinChat={handleTogglePinChat}
+          view={conversationView}
+          onChangeView={handleChangeConversationView}
+          draftChatIds={draftChatIds}
+          onSearchMessages={handleSearchMessages}
+          onSearchResultClick={handleSearchResultClick}
         />
 
         {/* KnowledgeBase Sidebar */}
@@ -403,7 +1028,16 @@ const ProjectPage: React.FC = () => {
           onSetActiveTab={setActiveTab}
           projectDocuments={data.documents}
           onDocumentUpload={handleDocumentUpload}
+          onUploadNewVersion={handleUploadNewVersion}
+          uploadTasks={uploadTasks}
+          onCancelUpload={handleCancelUpload}
+          onRetryUpload={handleRetryUpload}
+          onResolveDuplicateUpload={handleResolveDuplicate}
+          onClearFinishedUploads={handleClearFinishedUploads}
+          interruptedUploads={interruptedUploads}
+          onDiscardInterruptedUpload={handleDiscardInterruptedUpload}
           onDocumentDelete={handleDocumentDelete}
+          onReprocessDocuments={handleReprocessDocuments}
           onOpenDocument={handleOpenDocument}
           onUrlAdd={handleUrlAdd}
           projectSettings={data.settings as ProjectSettings}
@@ -417,6 +1051,10 @@ const ProjectPage: React.FC = () => {
         <FileDetailsModal
           document={selectedDocument}
           onClose={() => setSelectedDocumentId(null)}
+          onDocumentUpdated={handleDocumentUpdated}
+          onReprocess={(fromScratch) =>
+            handleReprocessDocuments([selectedDocument.id], fromScratch)
+          }
         />
       )}
     </>
@@ -0,0 +1,69 @@
+import { FileText, X } from "lucide-react";
+
+interface AttachmentChipProps {
+  filename: string;
+  fileSize: number;
+  previewUrl?: string;
+  // Restored from a draft: the file itself has to be attached again
+  isMissing?: boolean;
+  onRemove?: () => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export function AttachmentChip({
+  filename,
+  fileSize,
+  previewUrl,
+  isMissing,
+  onRemove,
+}: AttachmentChipProps) {
+  return (
+    <div
+      className={`flex items-center gap-2 max-w-[220px] bg-[#2a2a2a] border rounded-lg p-1.5 pr-2 ${
+        isMissing
+          ? "border-dashed border-amber-500/40 opacity-70"
+          : "border-gray-700"
+      }`}
+      title={isMissing ? "Attach this file again to send it" : undefined}
+    >
+      {previewUrl ? (
+        <img
+          src={previewUrl}
+          alt={filename}
+          className="w-8 h-8 rounded object-cover flex-shrink-0"
+        />
+      ) : (
+        <div className="w-8 h-8 bg-[#252525] rounded flex items-center justify-center flex-shrink-0">
+          <FileText size={14} className="text-gray-400" />
+        </div>
+      )}
+
+      <div className="min-w-0">
+        <p className="text-xs text-gray-200 truncate">{filename}</p>
+        <p
+          className={`text-[10px] ${
+            isMissing ? "text-amber-400" : "text-gray-500"
+          }`}
+        >
+          {isMissing ? "Attach again" : formatFileSize(fileSize)}
+        </p>
+      </div>
+
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-0.5 text-gray-500 hover:text-gray-300 rounded transition-colors flex-shrink-0"
+          title="Remove attachment"
+        >
+          <X size={12} />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,25 +1,305 @@
 "use client";
 
-import { useState } from "react";
-import { Send, Loader2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Send, Loader2, Square, Paperclip, BookText } from "lucide-react";
+import toast from "react-hot-toast";
+import { PromptTemplate, ProjectDocument } from "@/types";
+import {
+  getSlashCommandSuggestions,
+  isSlashCommand,
+  runSlashCommand,
+  SlashCommandResult,
+  SlashCommandSuggestion,
+} from "@/lib/slashCommands";
+import {
+  clearChatDraft,
+  DraftAttachment,
+  loadChatDraft,
+  saveChatDraft,
+} from "@/lib/chatDrafts";
+import { AttachmentChip } from "./AttachmentChip";
+import { PromptTemplateLibrary } from "./PromptTemplateLibrary";
+import { SlashCommandMenu } from "./SlashCommandMenu";
 
 interface ChatInputProps {
-  onSendMessage: (message: string) => Promise<void>;
+  // Resolves false when the question wasn't sent
+  onSendMessage: (message: string, files: File[]) => Promise<boolean>;
+  onStop?: () => void;
   disabled?: boolean;
+  allowAttachments?: boolean;
+  templates?: PromptTemplate[];
+  documents?: ProjectDocument[];
+  onCreateTemplate?: (name: string, body: string) => Promise<void>;
+  onDeleteTemplate?: (templateId: string) => void;
+  onSlashCommand?: (
+    result: SlashCommandResult,
+    files: File[]
+  ) => Promise<boolean>;
+  // Chat id the unsent input is saved under
+  draftId?: string;
 }
 
-export function ChatInput({ onSendMessage, disabled }: ChatInputProps) {
-  const [message, setMessage] = useState("");
+interface PendingAttachment {
+  file: File;
+  previewUrl?: string;
+}
+
+const MAX_ATTACHMENTS = 4;
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+const ACCEPTED_DOCUMENT_TYPES = [
+  "application/pdf",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+];
+
+const getRejectionReason = (file: File) => {
+  if (
+    !file.type.startsWith("image/") &&
+    !ACCEPTED_DOCUMENT_TYPES.includes(file.type)
+  ) {
+    return `${file.name}: only images, PDF and text files can be attached`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name}: attachments must be under 10MB`;
+  }
+  return null;
+};
+
+const toDraft = (
+  content: string,
+  attachments: PendingAttachment[],
+  draftAttachments: DraftAttachment[]
+) => ({
+  content,
+  attachments: [
+    ...attachments.map(({ file }) => ({
+      filename: file.name,
+      file_type: file.type,
+      file_size: file.size,
+    })),
+    ...draftAttachments,
+  ],
+});
+
+export function ChatInput({
+  onSendMessage,
+  onStop,
+  disabled,
+  allowAttachments = true,
+  templates = [],
+  documents = [],
+  onCreateTemplate,
+  onDeleteTemplate,
+  onSlashCommand,
+  draftId,
+}: ChatInputProps) {
+  const [message, setMessage] = useState(
+    () => (draftId && loadChatDraft(draftId)?.content) || ""
+  );
+  // Files listed in a restored draft, shown until attached again or dismissed
+  const [draftAttachments, setDraftAttachments] = useState<DraftAttachment[]>(
+    () => (draftId && loadChatDraft(draftId)?.attachments) || []
+  );
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const hasTemplates = !!onCreateTemplate && !!onDeleteTemplate;
+  const showLibrary = hasTemplates && isLibraryOpen;
+
+  // * Slash Commands - Autocomplete while the input starts with "/"
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [isMenuDismissed, setIsMenuDismissed] = useState(false);
+  const suggestions =
+    onSlashCommand && isSlashCommand(message) && !isMenuDismissed
+      ? getSlashCommandSuggestions(message, { documents })
+      : [];
+  const showCommandMenu = suggestions.length > 0 && !showLibrary;
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Image previews are object URLs, release them once they leave the input
+  const attachmentsRef = useRef(attachments);
+  useEffect(() => {
+    attachmentsRef.current = attachments;
+  }, [attachments]);
+  useEffect(
+    () => () =>
+      attachmentsRef.current.forEach(
+        (a) => a.previewUrl && URL.revokeObjectURL(a.previewUrl)
+      ),
+    []
+  );
+
+  useEffect(() => {
+    if (!draftId) return;
+    saveChatDraft(draftId, toDraft(message, attachments, draftAttachments));
+  }, [draftId, message, attachments, draftAttachments]);
+
+  const addFiles = (files: File[]) => {
+    if (!allowAttachments || files.length === 0) return;
+
+    const accepted = files.filter((file) => {
+      const reason = getRejectionReason(file);
+      if (reason) toast.error(reason);
+      return !reason;
+    });
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (accepted.length > room) {
+      toast.error(`You can attach up to ${MAX_ATTACHMENTS} files`);
+    }
+
+    setDraftAttachments((prev) =>
+      prev.filter((draft) => !accepted.some((f) => f.name === draft.filename))
+    );
+    setAttachments((prev) => [
+      ...prev,
+      ...accepted.slice(0, room).map((file) => ({
+        file,
+        previewUrl: file.type.startsWith("image/")
+          ? URL.createObjectURL(file)
+          : undefined,
+      })),
+    ]);
+  };
+
+  const removeAttachment = (index: number) => {
+    const removed = attachments[index];
+    if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+    setAttachments((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const clearAttachments = () => {
+    attachments.forEach(
+      (a) => a.previewUrl && URL.revokeObjectURL(a.previewUrl)
+    );
+    setAttachments([]);
+    setDraftAttachments([]);
+  };
+
+  // Returns false when the input should be left as it is
+  const runCommand = async (content: string, files: File[]) => {
+    if (!onSlashCommand) return false;
+
+    const result = runSlashCommand(content, { documents });
+    if ("error" in result) {
+      toast.error(result.error);
+      return false;
+    }
+
+    if (result.type === "action" && result.action === "templates") {
+      setIsLibraryOpen(true);
+    } else if (!(await onSlashCommand(result, files))) {
+      return false;
+    }
+    // Only a sent question uses up the attachments
+    if (result.type === "send") clearAttachments();
+    return true;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (message.trim() && !disabled) {
-      await onSendMessage(message.trim());
-      setMessage("");
+    const content = message.trim();
+    if (!content || disabled) return;
+
+    const files = attachments.map((a) => a.file);
+    // The question is on its way, so it's no longer a draft unless sending fails.
+    // It's only dropped for good once the send is confirmed
+    const restoreDraft = () =>
+      draftId &&
+      saveChatDraft(draftId, toDraft(message, attachments, draftAttachments));
+    if (draftId) clearChatDraft(draftId);
+
+    let isSent = false;
+    try {
+      if (onSlashCommand && isSlashCommand(content)) {
+        isSent = await runCommand(content, files);
+      } else {
+        isSent = await onSendMessage(content, files);
+        if (isSent) clearAttachments();
+      }
+    } catch {
+      // An unexpected error leaves isSent false, same as a failed send
+    }
+
+    // Keep the question and attachments so nothing has to be redone
+    if (!isSent) {
+      restoreDraft();
+      return;
+    }
+    setMessage("");
+  };
+
+  const handleMessageChange = (value: string) => {
+    setMessage(value);
+    setHighlightedIndex(0);
+    setIsMenuDismissed(false);
+  };
+
+  const completeSuggestion = (suggestion: SlashCommandSuggestion) => {
+    handleMessageChange(suggestion.value);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0 && allowAttachments) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleInsertTemplate = (text: string) => {
+    handleMessageChange(text);
+    setIsLibraryOpen(false);
+  };
+
+  const handleCommandMenuKeyDown = (e: React.KeyboardEvent) => {
+    const highlighted = suggestions[highlightedIndex] ?? suggestions[0];
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setHighlightedIndex((highlightedIndex + 1) % suggestions.length);
+        return true;
+      case "ArrowUp":
+        e.preventDefault();
+        setHighlightedIndex(
+          (highlightedIndex - 1 + suggestions.length) % suggestions.length
+        );
+        return true;
+      case "Tab":
+        e.preventDefault();
+        completeSuggestion(highlighted);
+        return true;
+      case "Escape":
+        e.preventDefault();
+        setIsMenuDismissed(true);
+        return true;
+      case "Enter":
+        // Enter completes a partial command, a complete one falls through and runs
+        if (!e.shiftKey && highlighted.value.trim() !== message.trim()) {
+          e.preventDefault();
+          completeSuggestion(highlighted);
+          return true;
+        }
+        return false;
+      default:
+        return false;
     }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (showLibrary && e.key === "Escape") {
+      e.preventDefault();
+      setIsLibraryOpen(false);
+      return;
+    }
+    if (showCommandMenu && handleCommandMenuKeyDown(e)) return;
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
@@ -28,41 +308,165 @@ export function ChatInput({ onSendMessage, disabled }: ChatInputProps) {
 
   return (
     <div className="border-t border-gray-800 bg-[#1a1a1a] px-6 py-4">
-      <div className="max-w-4xl mx-auto">
+      <div className="max-w-4xl mx-auto relative">
+        {/* Template Library - outside the form so its own forms don't nest */}
+        {showLibrary && onCreateTemplate && onDeleteTemplate && (
+          <PromptTemplateLibrary
+            templates={templates}
+            documents={documents}
+            onInsert={handleInsertTemplate}
+            onCreateTemplate={onCreateTemplate}
+            onDeleteTemplate={onDeleteTemplate}
+            onClose={() => setIsLibraryOpen(false)}
+          />
+        )}
+
+        {/* Slash Command Autocomplete */}
+        {showCommandMenu && (
+          <SlashCommandMenu
+            suggestions={suggestions}
+            highlightedIndex={highlightedIndex}
+            onSelect={completeSuggestion}
+          />
+        )}
+
         <form onSubmit={handleSubmit} className="relative">
-          <div className="relative flex items-end bg-[#252525] border border-gray-700 rounded-lg hover:border-gray-600 focus-within:border-gray-600 transition-colors">
-            <textarea
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Ask me anything about your documents..."
-              disabled={disabled}
-              rows={1}
-              className="flex-1 resize-none border-0 bg-transparent px-4 py-3 text-gray-200 placeholder-gray-400 focus:outline-none focus:ring-0 disabled:opacity-50 min-h-[48px] max-h-32 overflow-y-auto"
-              style={{
-                height: "auto",
-                minHeight: "48px",
-              }}
-              onInput={(e) => {
-                const target = e.target as HTMLTextAreaElement;
-                target.style.height = "auto";
-                target.style.height = Math.min(target.scrollHeight, 128) + "px";
-              }}
-            />
-
-            {/* Send Button */}
-            <div className="flex items-end p-2">
-              <button
-                type="submit"
-                disabled={disabled || !message.trim()}
-                className="flex items-center justify-center w-8 h-8 bg-white hover:bg-gray-100 disabled:bg-gray-600 disabled:cursor-not-allowed text-black disabled:text-gray-400 rounded-lg transition-colors"
-              >
-                {disabled ? (
-                  <Loader2 size={14} className="animate-spin" />
+          <div
+            onDragOver={(e) => {
+              if (!allowAttachments) return;
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`relative bg-[#252525] border rounded-lg transition-colors ${
+              isDragging
+                ? "border-blue-500/60 bg-blue-500/5"
+                : "border-gray-700 hover:border-gray-600 focus-within:border-gray-600"
+            }`}
+          >
+            {/* Attachment Chips */}
+            {attachments.length + draftAttachments.length > 0 && (
+              <div className="flex flex-wrap gap-2 px-3 pt-3">
+                {draftAttachments.map((draft, index) => (
+                  <AttachmentChip
+                    key={`draft-${draft.filename}-${index}`}
+                    filename={draft.filename}
+                    fileSize={draft.file_size}
+                    isMissing
+                    onRemove={() =>
+                      setDraftAttachments((prev) =>
+                        prev.filter((_, i) => i !== index)
+                      )
+                    }
+                  />
+                ))}
+                {attachments.map((attachment, index) => (
+                  <AttachmentChip
+                    key={`${attachment.file.name}-${index}`}
+                    filename={attachment.file.name}
+                    fileSize={attachment.file.size}
+                    previewUrl={attachment.previewUrl}
+                    onRemove={() => removeAttachment(index)}
+                  />
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-end">
+              <div className="flex items-end p-2 pr-0">
+                {/* Template Button */}
+                {hasTemplates && (
+                  <button
+                    type="button"
+                    onClick={() => setIsLibraryOpen(!isLibraryOpen)}
+                    disabled={disabled}
+                    className="flex items-center justify-center w-8 h-8 text-gray-400 hover:text-gray-200 hover:bg-[#2a2a2a] disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+                    title="Prompt templates (/)"
+                  >
+                    <BookText size={14} />
+                  </button>
+                )}
+
+                {/* Attach Button */}
+                {allowAttachments && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={
+                        disabled || attachments.length >= MAX_ATTACHMENTS
+                      }
+                      className="flex items-center justify-center w-8 h-8 text-gray-400 hover:text-gray-200 hover:bg-[#2a2a2a] disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+                      title="Attach an image or document"
+                    >
+                      <Paperclip size={14} />
+                    </button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      accept={["image/*", ...ACCEPTED_DOCUMENT_TYPES].join(",")}
+                      onChange={(e) => {
+                        addFiles(Array.from(e.target.files ?? []));
+                        e.target.value = "";
+                      }}
+                      className="hidden"
+                    />
+                  </>
+                )}
+              </div>
+
+              <textarea
+                value={message}
+                onChange={(e) => handleMessageChange(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onPaste={handlePaste}
+                placeholder={
+                  onSlashCommand
+                    ? "Ask me anything about your documents, or type / for commands"
+                    : "Ask me anything about your documents..."
+                }
+                disabled={disabled}
+                rows={1}
+                className="flex-1 resize-none border-0 bg-transparent px-4 py-3 text-gray-200 placeholder-gray-400 focus:outline-none focus:ring-0 disabled:opacity-50 min-h-[48px] max-h-32 overflow-y-auto"
+                style={{
+                  height: "auto",
+                  minHeight: "48px",
+                }}
+                onInput={(e) => {
+                  const target = e.target as HTMLTextAreaElement;
+                  target.style.height = "auto";
+                  target.style.height =
+                    Math.min(target.scrollHeight, 128) + "px";
+                }}
+              />
+
+              {/* Send / Stop Button */}
+              <div className="flex items-end p-2">
+                {disabled && onStop ? (
+                  <button
+                    type="button"
+                    onClick={onStop}
+                    className="flex items-center justify-center w-8 h-8 bg-white hover:bg-gray-100 text-black rounded-lg transition-colors"
+                    title="Stop generating"
+                  >
+                    <Square size={12} fill="currentColor" />
+                  </button>
                 ) : (
-                  <Send size={14} />
+                  <button
+                    type="submit"
+                    disabled={disabled || !message.trim()}
+                    className="flex items-center justify-center w-8 h-8 bg-white hover:bg-gray-100 disabled:bg-gray-600 disabled:cursor-not-allowed text-black disabled:text-gray-400 rounded-lg transition-colors"
+                  >
+                    {disabled ? (
+                      <Loader2 size={14} className="animate-spin" />
+                    ) : (
+                      <Send size={14} />
+                    )}
+                  </button>
                 )}
-              </button>
+              </div>
             </div>
           </div>
 
@@ -3,34 +3,57 @@
 import { MessageList } from "./MessageList";
 import { ChatInput } from "./ChatInput";
 import { ErrorDisplay } from "./ErrorDisplay";
-import { MessageSquare, Plus } from "lucide-react";
-
-interface Message {
-  id: string;
-  content: string;
-  role: "user" | "assistant";
-  created_at: string;
-  chat_id: string;
-  clerk_id: string;
-  citations?: Array<{
-    filename: string;
-    page: number;
-  }>;
-}
-
-interface Chat {
-  id: string;
-  project_id: string | null;
-  title: string;
-  messages: Message[];
-  created_at: string;
-  clerk_id: string;
-}
+import { ExportMenu } from "./ExportMenu";
+import { ChatSettingsPanel } from "./ChatSettingsPanel";
+import { ComparisonView } from "./ComparisonView";
+import { EditableText } from "@/components/ui/EditableText";
+import { Columns2, Eraser, MessageSquare, Plus, X } from "lucide-react";
+import {
+  ChatSettingsOverride,
+  ChatWithMessages,
+  Citation,
+  ComparisonRun,
+  ProjectDocument,
+  ProjectSettings,
+  PromptTemplate,
+  ToolCallStep,
+} from "@/types";
+import { getBranchPositions, getVisibleThread } from "@/lib/messageTree";
+import { SlashCommandResult } from "@/lib/slashCommands";
 
 interface ChatInterfaceProps {
-  chat?: Chat;
+  chat?: ChatWithMessages;
   projectId?: string;
-  onSendMessage: (content: string) => Promise<void>;
+  // Resolves false when the question wasn't sent
+  onSendMessage: (content: string, files: File[]) => Promise<boolean>;
+  onStopGenerating?: () => void;
+  onRetryMessage?: (messageId: string) => void;
+  onRegenerateMessage?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onSelectBranch?: (messageId: string, direction: -1 | 1) => void;
+  regeneratingMessageId?: string | null;
+  onOpenCitation?: (citation: Citation) => void;
+  onRenameChat?: (title: string) => void;
+  projectSettings?: ProjectSettings | null;
+  onUpdateChatSettings?: (override: ChatSettingsOverride | null) => void;
+  isCompareMode?: boolean;
+  onToggleCompareMode?: () => void;
+  comparisonRuns?: ComparisonRun[];
+  comparisonStrategies?: string[];
+  onChangeComparisonStrategies?: (strategies: string[]) => void;
+  onCompareQuestion?: (content: string) => Promise<void>;
+  onPreferStrategy?: (runId: string, strategy: string) => void;
+  promptTemplates?: PromptTemplate[];
+  projectDocuments?: ProjectDocument[];
+  onCreateTemplate?: (name: string, body: string) => Promise<void>;
+  onDeleteTemplate?: (templateId: string) => void;
+  onSlashCommand?: (
+    result: SlashCommandResult,
+    files: File[]
+  ) => Promise<boolean>;
+  isFreshStart?: boolean;
+  onCancelFreshStart?: () => void;
+  highlightedMessageId?: string | null;
   isLoading: boolean;
   error: string | null;
   onDismissError: () => void;
@@ -38,6 +61,7 @@ interface ChatInterfaceProps {
   streamingMessage?: string;
   isStreaming?: boolean;
   agentStatus?: string;
+  streamingToolCalls?: ToolCallStep[];
   onFeedback?: (messageId: string, type: "like" | "dislike") => void;
 }
 
@@ -45,6 +69,31 @@ export function ChatInterface({
   chat,
   projectId,
   onSendMessage,
+  onStopGenerating,
+  onRetryMessage,
+  onRegenerateMessage,
+  onEditMessage,
+  onSelectBranch,
+  regeneratingMessageId,
+  onOpenCitation,
+  onRenameChat,
+  projectSettings,
+  onUpdateChatSettings,
+  isCompareMode = false,
+  onToggleCompareMode,
+  comparisonRuns = [],
+  comparisonStrategies = [],
+  onChangeComparisonStrategies,
+  onCompareQuestion,
+  onPreferStrategy,
+  promptTemplates,
+  projectDocuments,
+  onCreateTemplate,
+  onDeleteTemplate,
+  onSlashCommand,
+  isFreshStart,
+  onCancelFreshStart,
+  highlightedMessageId,
   isLoading,
   error,
   onDismissError,
@@ -52,12 +101,23 @@ export function ChatInterface({
   streamingMessage,
   isStreaming,
   agentStatus,
+  streamingToolCalls,
   onFeedback,
 }: ChatInterfaceProps) {
-  const handleSendMessage = async (content: string) => {
-    await onSendMessage(content);
+  const handleSendMessage = async (content: string, files: File[]) => {
+    if (isCompareMode && onCompareQuestion) {
+      await onCompareQuestion(content);
+      return true;
+    }
+    return onSendMessage(content, files);
   };
 
+  // Only the selected branch of the message tree is shown
+  const thread = chat ? getVisibleThread(chat) : [];
+  const branchPositions = chat ? getBranchPositions(chat, thread) : {};
+  const hasSettingsOverride =
+    !!chat?.settings_override && Object.keys(chat.settings_override).length > 0;
+
   return (
     <div className="h-screen bg-[#0d1117] p-4">
       <div className="flex flex-col h-full bg-[#1a1a1a] text-white rounded-xl overflow-hidden">
@@ -74,10 +134,56 @@ export function ChatInterface({
                 {/* Chat Info */}
                 <div className="flex-1 min-w-0">
                   <h1 className="font-medium text-gray-200 text-sm truncate">
-                    {chat?.title || "New Chat"}
+                    {chat && onRenameChat ? (
+                      <EditableText
+                        value={chat.title}
+                        onSave={onRenameChat}
+                        title="Rename chat"
+                      />
+                    ) : (
+                      chat?.title || "New Chat"
+                    )}
                   </h1>
-                  <p className="text-xs text-gray-400">Project Chat</p>
+                  <div className="flex items-center gap-2">
+                    <p className="text-xs text-gray-400">Project Chat</p>
+                    {hasSettingsOverride && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-300 border border-amber-500/30">
+                        Custom settings
+                      </span>
+                    )}
+                  </div>
                 </div>
+
+                {/* Compare Mode Toggle */}
+                {chat && onToggleCompareMode && (
+                  <button
+                    onClick={onToggleCompareMode}
+                    className={`p-2 rounded-lg transition-colors hover:bg-[#252525] ${
+                      isCompareMode
+                        ? "text-blue-400 hover:text-blue-300"
+                        : "text-gray-400 hover:text-gray-300"
+                    }`}
+                    title={
+                      isCompareMode
+                        ? "Back to conversation"
+                        : "Compare strategies"
+                    }
+                  >
+                    <Columns2 size={14} />
+                  </button>
+                )}
+
+                {/* Chat Settings Override */}
+                {chat && projectSettings && onUpdateChatSettings && (
+                  <ChatSettingsPanel
+                    projectSettings={projectSettings}
+                    override={chat.settings_override}
+                    onSave={onUpdateChatSettings}
+                  />
+                )}
+
+                {/* Export */}
+                {chat && <ExportMenu chat={chat} thread={thread} />}
               </div>
             </div>
           </div>
@@ -89,16 +195,67 @@ export function ChatInterface({
         {/* Chat Content */}
         {chat ? (
           <>
-            <MessageList
-              messages={chat.messages}
-              isLoading={isLoading}
-              streamingMessage={streamingMessage}
-              isStreaming={isStreaming}
-              agentStatus={agentStatus}
-              onFeedback={onFeedback}
-            />
+            {isCompareMode &&
+            onChangeComparisonStrategies &&
+            onPreferStrategy ? (
+              <ComparisonView
+                runs={comparisonRuns}
+                strategies={comparisonStrategies}
+                onChangeStrategies={onChangeComparisonStrategies}
+                onPreferStrategy={onPreferStrategy}
+                onOpenCitation={onOpenCitation}
+              />
+            ) : (
+              <MessageList
+                messages={thread}
+                branchPositions={branchPositions}
+                isLoading={isLoading}
+                streamingMessage={streamingMessage}
+                isStreaming={isStreaming}
+                agentStatus={agentStatus}
+                streamingToolCalls={streamingToolCalls}
+                onFeedback={onFeedback}
+                onRetry={onRetryMessage}
+                onRegenerate={onRegenerateMessage}
+                onEdit={onEditMessage}
+                onSelectBranch={onSelectBranch}
+                regeneratingMessageId={regeneratingMessageId}
+                onOpenCitation={onOpenCitation}
+                highlightedMessageId={highlightedMessageId}
+              />
+            )}
+            {/* Fresh Start Notice (/clear) */}
+            {isFreshStart && (
+              <div className="border-t border-gray-800 px-6 pt-3">
+                <div className="max-w-4xl mx-auto flex items-center gap-2 text-xs text-gray-400">
+                  <Eraser size={12} />
+                  <span>
+                    Your next question starts a new conversation without earlier
+                    context
+                  </span>
+                  {onCancelFreshStart && (
+                    <button
+                      onClick={onCancelFreshStart}
+                      className="ml-auto p-1 text-gray-500 hover:text-gray-300 rounded transition-colors"
+                      title="Keep the current context"
+                    >
+                      <X size={12} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
             <ChatInput
+              key={chat.id}
+              draftId={chat.id}
               onSendMessage={handleSendMessage}
+              onStop={onStopGenerating}
+              allowAttachments={!isCompareMode}
+              templates={promptTemplates}
+              documents={projectDocuments}
+              onCreateTemplate={onCreateTemplate}
+              onDeleteTemplate={onDeleteTemplate}
+              onSlashCommand={onSlashCommand}
               disabled={isLoading || isStreaming}
             />
           </>
@@ -0,0 +1,233 @@
+"use client";
+
+import { useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { ChatSettingsOverride, ProjectSettings } from "@/types";
+import { AGENT_MODE_OPTIONS, STRATEGY_OPTIONS } from "@/lib/settingsOptions";
+
+interface ChatSettingsPanelProps {
+  projectSettings: ProjectSettings;
+  override?: ChatSettingsOverride | null;
+  onSave: (override: ChatSettingsOverride | null) => void;
+}
+
+type OverrideKey = keyof ChatSettingsOverride;
+
+const OVERRIDE_KEYS: OverrideKey[] = [
+  "rag_strategy",
+  "chunks_per_search",
+  "similarity_threshold",
+  "agent_type",
+];
+
+const pickOverridable = (settings: ProjectSettings) =>
+  Object.fromEntries(
+    OVERRIDE_KEYS.map((key) => [key, settings[key]])
+  ) as Required<ChatSettingsOverride>;
+
+// Only values that differ from the project are kept, so later project changes still apply
+const diffFromDefaults = (
+  values: Required<ChatSettingsOverride>,
+  defaults: Required<ChatSettingsOverride>
+): ChatSettingsOverride | null => {
+  const changed = Object.fromEntries(
+    OVERRIDE_KEYS.filter((key) => values[key] !== defaults[key]).map((key) => [
+      key,
+      values[key],
+    ])
+  );
+  return Object.keys(changed).length > 0 ? changed : null;
+};
+
+const RangeField = ({
+  label,
+  value,
+  defaultValue,
+  min,
+  max,
+  step = 1,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="space-y-2">
+    <div className="flex justify-between items-center">
+      <label className="text-xs text-gray-400">{label}</label>
+      <span
+        className={`text-xs px-2 py-0.5 rounded ${
+          value !== defaultValue
+            ? "bg-amber-500/20 text-amber-300"
+            : "bg-[#1a1a1a] text-gray-300"
+        }`}
+      >
+        {value}
+      </span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+    />
+    <p className="text-xs text-gray-500">Project default: {defaultValue}</p>
+  </div>
+);
+
+export function ChatSettingsPanel({
+  projectSettings,
+  override,
+  onSave,
+}: ChatSettingsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const defaults = pickOverridable(projectSettings);
+  const [draft, setDraft] = useState({ ...defaults, ...override });
+
+  const hasOverride = !!override && Object.keys(override).length > 0;
+
+  const handleOpen = () => {
+    // Start from what the chat currently uses
+    setDraft({ ...defaults, ...override });
+    setIsOpen(!isOpen);
+  };
+
+  const handleApply = () => {
+    onSave(diffFromDefaults(draft, defaults));
+    setIsOpen(false);
+  };
+
+  const handleReset = () => {
+    onSave(null);
+    setIsOpen(false);
+  };
+
+  const selectClassName = (isChanged: boolean) =>
+    `w-full p-2 bg-[#1a1a1a] border rounded-lg focus:outline-none text-sm text-gray-100 transition-colors ${
+      isChanged
+        ? "border-amber-500/40"
+        : "border-gray-700 focus:border-gray-600"
+    }`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleOpen}
+        className={`p-2 rounded-lg transition-colors hover:bg-[#252525] ${
+          hasOverride
+            ? "text-amber-400 hover:text-amber-300"
+            : "text-gray-400 hover:text-gray-300"
+        }`}
+        title="Chat retrieval settings"
+      >
+        <SlidersHorizontal size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-[#252525] border border-gray-700 rounded-lg shadow-xl p-4 z-20 space-y-4">
+          <div>
+            <h3 className="text-sm font-medium text-gray-200">
+              Settings for this chat
+            </h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Overrides the project settings for this conversation only
+            </p>
+          </div>
+
+          {/* Search Strategy */}
+          <div className="space-y-2">
+            <label className="text-xs text-gray-400">Search strategy</label>
+            <select
+              value={draft.rag_strategy}
+              onChange={(e) =>
+                setDraft({ ...draft, rag_strategy: e.target.value })
+              }
+              className={selectClassName(
+                draft.rag_strategy !== defaults.rag_strategy
+              )}
+            >
+              {STRATEGY_OPTIONS.map((strategy) => (
+                <option key={strategy.value} value={strategy.value}>
+                  {strategy.label}
+                  {strategy.value === defaults.rag_strategy
+                    ? " (project default)"
+                    : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <RangeField
+            label="Chunks per Search"
+            value={draft.chunks_per_search}
+            defaultValue={defaults.chunks_per_search}
+            min={5}
+            max={30}
+            onChange={(value) =>
+              setDraft({ ...draft, chunks_per_search: value })
+            }
+          />
+
+          <RangeField
+            label="Similarity Threshold"
+            value={draft.similarity_threshold}
+            defaultValue={defaults.similarity_threshold}
+            min={0.1}
+            max={0.9}
+            step={0.1}
+            onChange={(value) =>
+              setDraft({ ...draft, similarity_threshold: value })
+            }
+          />
+
+          {/* Agent Mode */}
+          <div className="space-y-2">
+            <label className="text-xs text-gray-400">Agent mode</label>
+            <select
+              value={draft.agent_type}
+              onChange={(e) =>
+                setDraft({ ...draft, agent_type: e.target.value })
+              }
+              className={selectClassName(
+                draft.agent_type !== defaults.agent_type
+              )}
+            >
+              {AGENT_MODE_OPTIONS.map((mode) => (
+                <option key={mode.value} value={mode.value}>
+                  {mode.label}
+                  {mode.value === defaults.agent_type
+                    ? " (project default)"
+                    : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-2 pt-1">
+            <button
+              onClick={handleReset}
+              disabled={!hasOverride}
+              className="flex-1 px-3 py-2 text-xs text-gray-300 bg-[#1a1a1a] hover:bg-[#202020] border border-gray-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Use project defaults
+            </button>
+            <button
+              onClick={handleApply}
+              className="flex-1 px-3 py-2 text-xs font-medium bg-white hover:bg-gray-100 text-black rounded-lg transition-colors"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Citation } from "@/types";
+
+interface CitationMarkerProps {
+  number: number;
+  citation: Citation;
+}
+
+// Inline [n] marker with a hover preview of the cited chunk
+export function CitationMarker({ number, citation }: CitationMarkerProps) {
+  return (
+    <span className="relative inline-block group/cite align-super">
+      <span className="inline-flex items-center justify-center min-w-4 h-4 px-1 mx-0.5 text-[10px] font-medium text-gray-300 bg-[#2a2a2a] border border-gray-600 rounded cursor-default group-hover/cite:border-gray-400 group-hover/cite:text-white transition-colors">
+        {number}
+      </span>
+
+      {/* Hover Preview */}
+      <span className="absolute left-1/2 bottom-full mb-2 -translate-x-1/2 w-72 hidden group-hover/cite:block z-20">
+        <span className="block bg-[#252525] border border-gray-700 rounded-lg p-3 shadow-xl text-left">
+          <span className="block text-xs font-medium text-gray-200 truncate">
+            {citation.filename}
+          </span>
+          <span className="block text-xs text-gray-500 mt-0.5 truncate">
+            {citation.source_type === "web"
+              ? citation.url
+              : `Page ${citation.page}`}
+          </span>
+          <span className="block text-xs text-gray-300 mt-2 leading-relaxed line-clamp-6 whitespace-pre-wrap">
+            {citation.chunk_text || "No preview available for this source"}
+          </span>
+        </span>
+      </span>
+    </span>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { AlertCircle, Check, Clock, Columns2, Loader2 } from "lucide-react";
+import { Citation, ComparisonRun } from "@/types";
+import { STRATEGY_OPTIONS } from "@/lib/settingsOptions";
+import { MarkdownContent } from "./MarkdownContent";
+import { SourcesList } from "./SourcesList";
+
+interface ComparisonViewProps {
+  runs: ComparisonRun[];
+  strategies: string[];
+  onChangeStrategies: (strategies: string[]) => void;
+  onPreferStrategy: (runId: string, strategy: string) => void;
+  onOpenCitation?: (citation: Citation) => void;
+}
+
+// Needs at least two columns to compare anything
+const MIN_STRATEGIES = 2;
+
+const getStrategyLabel = (strategy: string) =>
+  STRATEGY_OPTIONS.find((option) => option.value === strategy)?.label ??
+  strategy;
+
+const formatLatency = (latencyMs: number) =>
+  latencyMs < 1000 ? `${latencyMs}ms` : `${(latencyMs / 1000).toFixed(1)}s`;
+
+export function ComparisonView({
+  runs,
+  strategies,
+  onChangeStrategies,
+  onPreferStrategy,
+  onOpenCitation,
+}: ComparisonViewProps) {
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [runs.length]);
+
+  const handleToggleStrategy = (strategy: string) => {
+    if (strategies.includes(strategy)) {
+      if (strategies.length > MIN_STRATEGIES) {
+        onChangeStrategies(strategies.filter((s) => s !== strategy));
+      }
+      return;
+    }
+    // Keep the columns in the same order as the options
+    onChangeStrategies(
+      STRATEGY_OPTIONS.map((option) => option.value).filter(
+        (value) => value === strategy || strategies.includes(value)
+      )
+    );
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="max-w-6xl mx-auto px-6 py-6 space-y-8">
+        {/* Strategy Picker */}
+        <div className="bg-[#202020] border border-gray-800 rounded-lg p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <Columns2 size={14} className="text-gray-400" />
+            <span className="text-sm font-medium text-gray-300">
+              Compare strategies
+            </span>
+            <span className="ml-auto text-xs text-gray-500">
+              Each question is answered once per selected strategy
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {STRATEGY_OPTIONS.map((option) => {
+              const isSelected = strategies.includes(option.value);
+              return (
+                <button
+                  key={option.value}
+                  onClick={() => handleToggleStrategy(option.value)}
+                  className={`px-3 py-1.5 rounded-lg border text-xs transition-colors ${
+                    isSelected
+                      ? "bg-blue-500/20 text-blue-300 border-blue-500/30"
+                      : "bg-[#252525] text-gray-400 border-gray-700 hover:text-gray-200"
+                  }`}
+                  title={option.description}
+                >
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {runs.length === 0 && (
+          <p className="text-center text-sm text-gray-500 py-12">
+            Ask a question to see the answers side by side
+          </p>
+        )}
+
+        {/* Runs */}
+        {runs.map((run) => (
+          <section key={run.id} className="space-y-4">
+            <div className="flex justify-end">
+              <div className="max-w-[70%] bg-[#2a2a2a] text-gray-100 border border-gray-700 rounded-lg px-4 py-3 text-sm whitespace-pre-wrap">
+                {run.question}
+              </div>
+            </div>
+
+            <div
+              className="grid gap-4"
+              style={{
+                gridTemplateColumns: `repeat(${run.results.length}, minmax(0, 1fr))`,
+              }}
+            >
+              {run.results.map((result) => {
+                const isPreferred = run.preferred_strategy === result.strategy;
+
+                return (
+                  <div
+                    key={result.strategy}
+                    className={`flex flex-col bg-[#202020] border rounded-lg p-4 ${
+                      isPreferred ? "border-green-500/40" : "border-gray-800"
+                    }`}
+                  >
+                    {/* Column Header */}
+                    <div className="flex items-center gap-2 mb-3 pb-3 border-b border-gray-800">
+                      <span className="text-xs font-medium text-gray-200">
+                        {getStrategyLabel(result.strategy)}
+                      </span>
+                      {result.latency_ms !== undefined && (
+                        <span className="ml-auto flex items-center gap-1 text-xs text-gray-500">
+                          <Clock size={10} />
+                          {formatLatency(result.latency_ms)}
+                        </span>
+                      )}
+                    </div>
+
+                    {/* Answer */}
+                    <div className="flex-1 text-gray-200">
+                      {result.status === "loading" && (
+                        <div className="flex items-center gap-2 text-sm text-gray-400">
+                          <Loader2 size={14} className="animate-spin" />
+                          Generating...
+                        </div>
+                      )}
+                      {result.status === "failed" && (
+                        <div className="flex items-center gap-2 text-sm text-red-400">
+                          <AlertCircle size={14} />
+                          {result.error ?? "Failed to answer"}
+                        </div>
+                      )}
+                      {result.status === "completed" && result.message && (
+                        <>
+                          <MarkdownContent
+                            content={result.message.content}
+                            citations={result.message.citations}
+                          />
+                          {result.message.citations &&
+                            result.message.citations.length > 0 && (
+                              <SourcesList
+                                citations={result.message.citations}
+                                onOpenCitation={onOpenCitation}
+                              />
+                            )}
+                        </>
+                      )}
+                    </div>
+
+                    {/* Vote */}
+                    {result.status === "completed" && (
+                      <button
+                        onClick={() =>
+                          onPreferStrategy(run.id, result.strategy)
+                        }
+                        disabled={!!run.preferred_strategy}
+                        className={`mt-4 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg text-xs border transition-colors disabled:cursor-default ${
+                          isPreferred
+                            ? "bg-green-500/20 text-green-300 border-green-500/30"
+                            : "bg-[#252525] text-gray-300 border-gray-700 hover:bg-[#2a2a2a] disabled:opacity-50"
+                        }`}
+                      >
+                        <Check size={12} />
+                        {isPreferred ? "Preferred" : "Prefer this one"}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        ))}
+
+        <div ref={bottomRef} />
+      </div>
+    </div>
+  );
+}
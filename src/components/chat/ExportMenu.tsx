@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { Download, FileJson, FileText, Printer } from "lucide-react";
+import toast from "react-hot-toast";
+import { ChatWithMessages, Message } from "@/types";
+import {
+  chatToJson,
+  chatToMarkdown,
+  chatToPrintableHtml,
+  downloadFile,
+  openPrintView,
+} from "@/lib/chatExport";
+
+interface ExportMenuProps {
+  chat: ChatWithMessages;
+  thread: Message[];
+}
+
+export function ExportMenu({ chat, thread }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const exportOptions = [
+    {
+      id: "markdown",
+      label: "Markdown",
+      description: "Visible conversation, sources as footnotes",
+      icon: FileText,
+      run: () =>
+        downloadFile(
+          chat.title,
+          "md",
+          chatToMarkdown(chat, thread),
+          "text/markdown"
+        ),
+    },
+    {
+      id: "json",
+      label: "JSON",
+      description: "All branches, citations and feedback",
+      icon: FileJson,
+      run: () =>
+        downloadFile(chat.title, "json", chatToJson(chat), "application/json"),
+    },
+    {
+      id: "print",
+      label: "Print / PDF",
+      description: "Printable view for Save as PDF",
+      icon: Printer,
+      run: () => openPrintView(chatToPrintableHtml(chat, thread)),
+    },
+  ];
+
+  const handleExport = (run: () => void) => {
+    setIsOpen(false);
+    try {
+      run();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to export chat";
+      toast.error(errorMessage);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={thread.length === 0}
+        className="p-2 text-gray-400 hover:text-gray-300 hover:bg-[#252525] rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Export conversation"
+      >
+        <Download size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-[#252525] border border-gray-700 rounded-lg shadow-xl p-1 z-20">
+          {exportOptions.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => handleExport(option.run)}
+              className="w-full flex items-start gap-3 px-3 py-2 text-left rounded-md hover:bg-[#2a2a2a] transition-colors"
+            >
+              <option.icon size={14} className="text-gray-400 mt-0.5" />
+              <div>
+                <p className="text-sm text-gray-200">{option.label}</p>
+                <p className="text-xs text-gray-500">{option.description}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
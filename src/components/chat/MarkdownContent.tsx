@@ -0,0 +1,181 @@
+"use client";
+
+import { useRef, useState } from "react";
+import ReactMarkdown, { Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import { Check, Copy } from "lucide-react";
+import { Citation } from "@/types";
+import {
+  CITATION_HREF_PREFIX,
+  remarkCitationLinks,
+} from "@/lib/citationMarkers";
+import { CitationMarker } from "./CitationMarker";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+
+interface MarkdownContentProps {
+  content: string;
+  citations?: Citation[];
+  // Plain elements and [n] markers for the print view, which has none of the app's styles
+  printable?: boolean;
+}
+
+function CodeBlock({ children }: { children?: React.ReactNode }) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(preRef.current?.textContent ?? "");
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="relative group/code my-3">
+      <button
+        onClick={handleCopy}
+        className="absolute top-2 right-2 p-1.5 bg-[#252525] border border-gray-700 rounded-md text-gray-400 hover:text-gray-200 opacity-0 group-hover/code:opacity-100 transition-opacity"
+        title={copied ? "Copied" : "Copy code"}
+      >
+        {copied ? <Check size={12} /> : <Copy size={12} />}
+      </button>
+      <pre
+        ref={preRef}
+        className="bg-[#0d1117] border border-gray-800 rounded-lg p-4 overflow-x-auto text-xs leading-relaxed [&>code]:bg-transparent [&>code]:p-0"
+      >
+        {children}
+      </pre>
+    </div>
+  );
+}
+
+function MarkdownLink({
+  href,
+  children,
+}: {
+  href?: string;
+  children?: React.ReactNode;
+}) {
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-blue-400 hover:text-blue-300 underline"
+    >
+      {children}
+    </a>
+  );
+}
+
+// Raw HTML in the markdown is never rendered (no rehype-raw), so model output can't inject markup
+const MARKDOWN_COMPONENTS: Components = {
+  h1: ({ children }) => (
+    <h1 className="text-lg font-semibold text-gray-100 mt-4 mb-2">
+      {children}
+    </h1>
+  ),
+  h2: ({ children }) => (
+    <h2 className="text-base font-semibold text-gray-100 mt-4 mb-2">
+      {children}
+    </h2>
+  ),
+  h3: ({ children }) => (
+    <h3 className="text-sm font-semibold text-gray-100 mt-3 mb-1">
+      {children}
+    </h3>
+  ),
+  p: ({ children }) => <p className="my-2 leading-relaxed">{children}</p>,
+  ul: ({ children }) => (
+    <ul className="list-disc pl-5 my-2 space-y-1">{children}</ul>
+  ),
+  ol: ({ children }) => (
+    <ol className="list-decimal pl-5 my-2 space-y-1">{children}</ol>
+  ),
+  a: ({ href, children }) => (
+    <MarkdownLink href={href}>{children}</MarkdownLink>
+  ),
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-2 border-gray-600 pl-3 my-2 text-gray-400">
+      {children}
+    </blockquote>
+  ),
+  hr: () => <hr className="my-4 border-gray-800" />,
+  table: ({ children }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="w-full text-xs border border-gray-700 border-collapse">
+        {children}
+      </table>
+    </div>
+  ),
+  th: ({ children }) => (
+    <th className="bg-[#252525] border border-gray-700 px-3 py-2 text-left font-medium text-gray-200">
+      {children}
+    </th>
+  ),
+  td: ({ children }) => (
+    <td className="border border-gray-700 px-3 py-2 text-gray-300">
+      {children}
+    </td>
+  ),
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  code: ({ className, children }) => (
+    <code
+      className={`${
+        className ?? ""
+      } bg-[#2a2a2a] px-1 py-0.5 rounded text-[0.85em] font-mono`}
+    >
+      {children}
+    </code>
+  ),
+};
+
+export function MarkdownContent({
+  content,
+  citations = [],
+  printable = false,
+}: MarkdownContentProps) {
+  const components: Components = printable
+    ? {
+        a: ({ href, children }) =>
+          href?.startsWith(CITATION_HREF_PREFIX) ? (
+            <sup>[{href.slice(CITATION_HREF_PREFIX.length)}]</sup>
+          ) : (
+            <a href={href}>{children}</a>
+          ),
+      }
+    : {
+        ...MARKDOWN_COMPONENTS,
+        a: ({ href, children }) => {
+          if (href?.startsWith(CITATION_HREF_PREFIX)) {
+            const number = Number(href.slice(CITATION_HREF_PREFIX.length));
+            return (
+              <CitationMarker
+                number={number}
+                citation={citations[number - 1]}
+              />
+            );
+          }
+          return <MarkdownLink href={href}>{children}</MarkdownLink>;
+        },
+      };
+
+  return (
+    <div className="text-sm break-words [&>*:first-child]:mt-0 [&>*:last-child]:mb-0">
+      <ReactMarkdown
+        remarkPlugins={[
+          remarkGfm,
+          remarkMath,
+          [remarkCitationLinks, { citationCount: citations.length }],
+        ]}
+        rehypePlugins={[rehypeKatex, rehypeHighlight]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
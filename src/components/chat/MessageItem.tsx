@@ -1,25 +1,64 @@
-import { ThumbsUp, ThumbsDown, User, Bot } from "lucide-react";
-
-interface Message {
-  id: string;
-  content: string;
-  role: "user" | "assistant";
-  created_at: string;
-  chat_id: string;
-  clerk_id: string;
-  citations?: Array<{
-    filename: string;
-    page: number;
-  }>;
-}
+import { useState } from "react";
+import {
+  ThumbsUp,
+  ThumbsDown,
+  User,
+  Bot,
+  CircleStop,
+  RefreshCw,
+  RotateCcw,
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+} from "lucide-react";
+import { Message } from "@/types";
+import { BranchPosition, isClientOnlyMessage } from "@/lib/messageTree";
+import { MarkdownContent } from "./MarkdownContent";
+import { ToolCallTimeline } from "./ToolCallTimeline";
+import { AttachmentChip } from "./AttachmentChip";
 
 interface MessageItemProps {
   message: Message;
   onFeedback?: (messageId: string, type: "like" | "dislike") => void;
+  onRetry?: (messageId: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  onSelectBranch?: (messageId: string, direction: -1 | 1) => void;
+  branchPosition?: BranchPosition;
+  actionsDisabled?: boolean;
 }
 
-export function MessageItem({ message, onFeedback }: MessageItemProps) {
+export function MessageItem({
+  message,
+  onFeedback,
+  onRetry,
+  onRegenerate,
+  onEdit,
+  onSelectBranch,
+  branchPosition,
+  actionsDisabled,
+}: MessageItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+
   const isUser = message.role === "user";
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    if (!content || actionsDisabled) return;
+
+    setIsEditing(false);
+    if (content !== message.content) {
+      onEdit?.(message.id, content);
+    }
+  };
+
+  const handleEditCancel = () => {
+    setDraft(message.content);
+    setIsEditing(false);
+  };
+
   const time = new Date(message.created_at).toLocaleTimeString([], {
     hour: "2-digit",
     minute: "2-digit",
@@ -45,9 +84,79 @@ export function MessageItem({ message, onFeedback }: MessageItemProps) {
                 : "bg-[#202020] text-gray-200 border-gray-800 hover:border-gray-700"
             }`}
           >
-            <p className="whitespace-pre-wrap leading-relaxed text-sm">
-              {message.content}
-            </p>
+            {isEditing ? (
+              <form onSubmit={handleEditSubmit} className="space-y-3">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={3}
+                  autoFocus
+                  className="w-full min-w-[320px] resize-y bg-transparent text-sm leading-relaxed focus:outline-none"
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={handleEditCancel}
+                    className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-100 border border-gray-300 rounded-md transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!draft.trim() || actionsDisabled}
+                    className="px-3 py-1.5 text-xs text-white bg-gray-900 hover:bg-gray-800 disabled:bg-gray-400 rounded-md transition-colors"
+                  >
+                    Send
+                  </button>
+                </div>
+              </form>
+            ) : isUser ? (
+              <>
+                {message.attachments && message.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {message.attachments.map((attachment) => (
+                      <a
+                        key={attachment.s3_key}
+                        href={attachment.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        <AttachmentChip
+                          filename={attachment.filename}
+                          fileSize={attachment.file_size}
+                          previewUrl={
+                            attachment.file_type.startsWith("image/")
+                              ? attachment.url
+                              : undefined
+                          }
+                        />
+                      </a>
+                    ))}
+                  </div>
+                )}
+                <p className="whitespace-pre-wrap leading-relaxed text-sm">
+                  {message.content}
+                </p>
+              </>
+            ) : (
+              <>
+                {message.tool_calls && message.tool_calls.length > 0 && (
+                  <ToolCallTimeline steps={message.tool_calls} />
+                )}
+                <MarkdownContent
+                  content={message.content}
+                  citations={message.citations}
+                />
+              </>
+            )}
+
+            {/* Interrupted Marker */}
+            {message.status === "interrupted" && (
+              <div className="flex items-center gap-2 mt-3 pt-3 border-t border-gray-800 text-xs text-gray-500">
+                <CircleStop size={12} />
+                <span>Generation stopped</span>
+              </div>
+            )}
           </div>
 
           {/* User Avatar - Only show for user */}
@@ -58,8 +167,8 @@ export function MessageItem({ message, onFeedback }: MessageItemProps) {
           )}
         </div>
 
-        {/* Feedback Buttons - Only show for assistant messages */}
-        {!isUser && (
+        {/* Feedback Buttons - Only for assistant messages the server has saved */}
+        {!isUser && !isClientOnlyMessage(message) && (
           <div className="absolute -bottom-2 right-10 opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1 bg-[#252525] border border-gray-700 rounded-lg p-1">
             <button
               onClick={() => onFeedback?.(message.id, "like")}
@@ -81,6 +190,37 @@ export function MessageItem({ message, onFeedback }: MessageItemProps) {
                 className="text-gray-400 group-hover/btn:text-gray-300 transition-colors"
               />
             </button>
+            {onRegenerate && (
+              <button
+                onClick={() => onRegenerate(message.id)}
+                disabled={actionsDisabled}
+                className="p-1.5 hover:bg-[#2a2a2a] rounded-md transition-colors group/btn disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Regenerate response"
+              >
+                <RefreshCw
+                  size={12}
+                  className="text-gray-400 group-hover/btn:text-gray-300 transition-colors"
+                />
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Failed Send - Retry */}
+        {isUser && message.status === "failed" && (
+          <div className="flex items-center justify-end gap-2 mt-2 mr-10 text-xs text-red-400">
+            <AlertCircle size={12} />
+            <span>Failed to send</span>
+            {onRetry && (
+              <button
+                onClick={() => onRetry(message.id)}
+                disabled={actionsDisabled}
+                className="flex items-center gap-1 px-2 py-1 text-gray-300 bg-[#252525] hover:bg-[#2a2a2a] border border-gray-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RotateCcw size={10} />
+                Retry
+              </button>
+            )}
           </div>
         )}
 
@@ -90,6 +230,45 @@ export function MessageItem({ message, onFeedback }: MessageItemProps) {
             isUser ? "justify-end" : "justify-start ml-10"
           }`}
         >
+          {/* Edit Button - Only show for user messages */}
+          {isUser && onEdit && !isEditing && (
+            <button
+              onClick={() => setIsEditing(true)}
+              disabled={actionsDisabled}
+              className="p-1 text-gray-500 hover:text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity disabled:cursor-not-allowed"
+              title="Edit message"
+            >
+              <Pencil size={12} />
+            </button>
+          )}
+
+          {/* Branch Navigation - edited questions and regenerated answers */}
+          {branchPosition && branchPosition.count > 1 && (
+            <div className="flex items-center gap-1 text-xs text-gray-400">
+              <button
+                onClick={() => onSelectBranch?.(message.id, -1)}
+                disabled={actionsDisabled || branchPosition.index <= 0}
+                className="p-0.5 hover:text-gray-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                title={isUser ? "Previous version" : "Previous response"}
+              >
+                <ChevronLeft size={12} />
+              </button>
+              <span>
+                {branchPosition.index + 1}/{branchPosition.count}
+              </span>
+              <button
+                onClick={() => onSelectBranch?.(message.id, 1)}
+                disabled={
+                  actionsDisabled ||
+                  branchPosition.index >= branchPosition.count - 1
+                }
+                className="p-0.5 hover:text-gray-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                title={isUser ? "Next version" : "Next response"}
+              >
+                <ChevronRight size={12} />
+              </button>
+            </div>
+          )}
           <span className="text-xs text-gray-500 opacity-0 group-hover:opacity-100 transition-opacity">
             {time}
           </span>
@@ -1,36 +1,47 @@
 import { useEffect, useRef } from "react";
 import { MessageItem } from "./MessageItem";
 import { FileText, Loader2 } from "lucide-react";
-
-interface Message {
-  id: string;
-  content: string;
-  role: "user" | "assistant";
-  created_at: string;
-  chat_id: string;
-  clerk_id: string;
-  citations?: Array<{
-    filename: string;
-    page: number;
-  }>;
-}
+import { Citation, Message, ToolCallStep } from "@/types";
+import { BranchPosition } from "@/lib/messageTree";
+import { MarkdownContent } from "./MarkdownContent";
+import { SourcesList } from "./SourcesList";
+import { RetrievalTracePanel } from "./RetrievalTracePanel";
+import { ToolCallTimeline } from "./ToolCallTimeline";
 
 interface MessageListProps {
   messages: Message[];
+  branchPositions?: Record<string, BranchPosition>;
   isLoading: boolean;
   streamingMessage?: string;
   isStreaming?: boolean;
   agentStatus?: string;
+  streamingToolCalls?: ToolCallStep[];
   onFeedback?: (messageId: string, type: "like" | "dislike") => void;
+  onRetry?: (messageId: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  onSelectBranch?: (messageId: string, direction: -1 | 1) => void;
+  regeneratingMessageId?: string | null;
+  onOpenCitation?: (citation: Citation) => void;
+  highlightedMessageId?: string | null;
 }
 
 export function MessageList({
   messages = [],
+  branchPositions = {},
   isLoading,
   streamingMessage = "",
   isStreaming = false,
   agentStatus = "",
+  streamingToolCalls = [],
   onFeedback,
+  onRetry,
+  onRegenerate,
+  onEdit,
+  onSelectBranch,
+  regeneratingMessageId = null,
+  onOpenCitation,
+  highlightedMessageId = null,
 }: MessageListProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -38,10 +49,82 @@ export function MessageList({
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  // Read through a ref so clearing the highlight doesn't scroll away from the match
+  const highlightedMessageIdRef = useRef(highlightedMessageId);
+  useEffect(() => {
+    highlightedMessageIdRef.current = highlightedMessageId;
+  }, [highlightedMessageId]);
+
   useEffect(() => {
+    // A highlighted message takes over scrolling until its flash ends
+    if (highlightedMessageIdRef.current) return;
     scrollToBottom();
   }, [messages, streamingMessage]);
 
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document
+      .getElementById(`message-${highlightedMessageId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [highlightedMessageId]);
+
+  // Streaming bubble or loading state, rendered at the end of the list or in
+  // place of the message being regenerated
+  const pendingAnswer = (
+    <>
+      {/* Streaming Message */}
+      {isStreaming && streamingMessage && (
+        <div className="group">
+          <div className="flex justify-start">
+            <div className="bg-[#202020] border border-gray-800 rounded-lg p-4 max-w-[85%]">
+              {streamingToolCalls.length > 0 && (
+                <ToolCallTimeline steps={streamingToolCalls} defaultOpen />
+              )}
+              <div className="text-gray-200">
+                <MarkdownContent content={streamingMessage} />
+              </div>
+
+              {/* Typing Indicator */}
+              <div className="flex items-center gap-2 mt-4 pt-3 border-t border-gray-800">
+                <div className="flex items-center gap-1">
+                  <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce"></div>
+                  <div
+                    className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce"
+                    style={{ animationDelay: "0.1s" }}
+                  ></div>
+                  <div
+                    className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce"
+                    style={{ animationDelay: "0.2s" }}
+                  ></div>
+                </div>
+                <span className="text-xs text-gray-400 ml-2">
+                  {agentStatus || "AI is thinking..."}
+                </span>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Loading State - with dynamic status */}
+      {isLoading && !isStreaming && (
+        <div className="flex justify-start">
+          <div className="bg-[#202020] border border-gray-800 rounded-lg p-4">
+            {streamingToolCalls.length > 0 && (
+              <ToolCallTimeline steps={streamingToolCalls} defaultOpen />
+            )}
+            <div className="flex items-center gap-3">
+              <Loader2 size={16} className="text-gray-400 animate-spin" />
+              <span className="text-sm text-gray-300">
+                {agentStatus || "Thinking..."}
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+
   return (
     <div className="flex-1 overflow-y-auto bg-[#1a1a1a]">
       {messages.length === 0 && !isStreaming && !isLoading ? (
@@ -62,107 +145,50 @@ export function MessageList({
       ) : (
         <div className="max-w-4xl mx-auto px-6 py-8">
           <div className="space-y-8">
-            {messages.map((message) => (
-              <div key={message.id} className="group">
-                <MessageItem message={message} onFeedback={onFeedback} />
-
-                {/* Citations UI */}
-                {message.role === "assistant" &&
-                  message.citations &&
-                  message.citations.length > 0 && (
-                    <div className="mt-6 ml-0">
-                      <div className="bg-[#202020] border border-gray-800 rounded-lg p-4">
-                        <div className="flex items-center gap-3 mb-4">
-                          <div className="w-5 h-5 bg-[#252525] border border-gray-700 rounded-md flex items-center justify-center">
-                            <FileText size={12} className="text-gray-400" />
-                          </div>
-                          <span className="text-sm font-medium text-gray-300">
-                            Sources ({message.citations.length})
-                          </span>
-                        </div>
-
-                        <div className="grid gap-2">
-                          {message.citations.map((citation, citationIndex) => (
-                            <div
-                              key={citationIndex}
-                              className="flex items-center gap-3 bg-[#252525] hover:bg-[#2a2a2a] rounded-lg px-3 py-2 border border-gray-700 hover:border-gray-600 transition-colors"
-                            >
-                              {/* Document Icon */}
-                              <div className="flex-shrink-0 w-7 h-7 bg-[#2a2a2a] border border-gray-600 rounded-md flex items-center justify-center">
-                                <FileText size={12} className="text-gray-400" />
-                              </div>
+            {messages.map((message) =>
+              message.id === regeneratingMessageId ? (
+                <div key={message.id}>{pendingAnswer}</div>
+              ) : (
+                <div
+                  key={message.id}
+                  id={`message-${message.id}`}
+                  className={`group rounded-lg transition-shadow duration-700 ${
+                    message.id === highlightedMessageId
+                      ? "ring-2 ring-yellow-400/40 animate-pulse"
+                      : ""
+                  }`}
+                >
+                  <MessageItem
+                    message={message}
+                    onFeedback={onFeedback}
+                    onRetry={onRetry}
+                    onRegenerate={onRegenerate}
+                    onEdit={onEdit}
+                    onSelectBranch={onSelectBranch}
+                    branchPosition={branchPositions[message.id]}
+                    actionsDisabled={isLoading || isStreaming}
+                  />
 
-                              {/* Citation Info */}
-                              <div className="flex-1 min-w-0">
-                                <p className="text-sm font-medium text-gray-200 truncate">
-                                  {citation.filename}
-                                </p>
-                                <p className="text-xs text-gray-400 mt-0.5">
-                                  Page {citation.page}
-                                </p>
-                              </div>
+                  {/* Citations UI */}
+                  {message.role === "assistant" &&
+                    message.citations &&
+                    message.citations.length > 0 && (
+                      <SourcesList
+                        citations={message.citations}
+                        onOpenCitation={onOpenCitation}
+                      />
+                    )}
 
-                              {/* Page Number Badge */}
-                              <div className="flex-shrink-0">
-                                <div className="w-6 h-6 bg-[#2a2a2a] border border-gray-600 rounded-md flex items-center justify-center">
-                                  <span className="text-xs font-medium text-gray-400">
-                                    {citation.page}
-                                  </span>
-                                </div>
-                              </div>
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    </div>
+                  {/* Retrieval Debug */}
+                  {message.role === "assistant" && message.retrieval_trace && (
+                    <RetrievalTracePanel trace={message.retrieval_trace} />
                   )}
-              </div>
-            ))}
-
-            {/* Streaming Message */}
-            {isStreaming && streamingMessage && (
-              <div className="group">
-                <div className="flex justify-start">
-                  <div className="bg-[#202020] border border-gray-800 rounded-lg p-4 max-w-[85%]">
-                    <p className="whitespace-pre-wrap text-gray-200 leading-relaxed text-sm">
-                      {streamingMessage}
-                    </p>
-
-                    {/* Typing Indicator */}
-                    <div className="flex items-center gap-2 mt-4 pt-3 border-t border-gray-800">
-                      <div className="flex items-center gap-1">
-                        <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce"></div>
-                        <div
-                          className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce"
-                          style={{ animationDelay: "0.1s" }}
-                        ></div>
-                        <div
-                          className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce"
-                          style={{ animationDelay: "0.2s" }}
-                        ></div>
-                      </div>
-                      <span className="text-xs text-gray-400 ml-2">
-                        AI is thinking...
-                      </span>
-                    </div>
-                  </div>
                 </div>
-              </div>
+              )
             )}
 
-            {/* Loading State - with dynamic status */}
-            {isLoading && !isStreaming && (
-              <div className="flex justify-start">
-                <div className="bg-[#202020] border border-gray-800 rounded-lg p-4">
-                  <div className="flex items-center gap-3">
-                    <Loader2 size={16} className="text-gray-400 animate-spin" />
-                    <span className="text-sm text-gray-300">
-                      {agentStatus || "Thinking..."}
-                    </span>
-                  </div>
-                </div>
-              </div>
-            )}
+            {/* In-flight answer for a new message */}
+            {!regeneratingMessageId && pendingAnswer}
           </div>
         </div>
       )}
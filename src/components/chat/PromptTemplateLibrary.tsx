@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowLeft, BookText, Plus, Trash2, X } from "lucide-react";
+import { PromptTemplate, ProjectDocument } from "@/types";
+import {
+  fillTemplate,
+  parseTemplateVariables,
+  TemplateVariable,
+} from "@/lib/promptTemplates";
+
+interface PromptTemplateLibraryProps {
+  templates: PromptTemplate[];
+  documents: ProjectDocument[];
+  onInsert: (text: string) => void;
+  onCreateTemplate: (name: string, body: string) => Promise<void>;
+  onDeleteTemplate: (templateId: string) => void;
+  onClose: () => void;
+}
+
+type LibraryView =
+  | { mode: "list" }
+  | { mode: "create" }
+  | { mode: "fill"; template: PromptTemplate };
+
+const INPUT_CLASS =
+  "w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded-lg focus:outline-none focus:border-gray-600 text-sm text-gray-100 placeholder-gray-500";
+
+export function PromptTemplateLibrary({
+  templates,
+  documents,
+  onInsert,
+  onCreateTemplate,
+  onDeleteTemplate,
+  onClose,
+}: PromptTemplateLibraryProps) {
+  const [view, setView] = useState<LibraryView>({ mode: "list" });
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState("");
+  const [newBody, setNewBody] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSelect = (template: PromptTemplate) => {
+    // Templates without placeholders go straight into the input
+    if (parseTemplateVariables(template.body).length === 0) {
+      onInsert(template.body);
+      return;
+    }
+    setValues({});
+    setView({ mode: "fill", template });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim() || !newBody.trim()) return;
+    try {
+      setIsSaving(true);
+      await onCreateTemplate(newName.trim(), newBody.trim());
+      setNewName("");
+      setNewBody("");
+      setView({ mode: "list" });
+    } catch (err) {
+      console.error("Failed to save template:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderVariableInput = (variable: TemplateVariable) =>
+    variable.type === "document" ? (
+      <select
+        value={values[variable.name] ?? ""}
+        onChange={(e) =>
+          setValues({ ...values, [variable.name]: e.target.value })
+        }
+        className={INPUT_CLASS}
+      >
+        <option value="" disabled>
+          Pick a document
+        </option>
+        {documents.map((doc) => (
+          <option key={doc.id} value={doc.filename}>
+            {doc.filename}
+          </option>
+        ))}
+      </select>
+    ) : (
+      <input
+        type="text"
+        value={values[variable.name] ?? ""}
+        onChange={(e) =>
+          setValues({ ...values, [variable.name]: e.target.value })
+        }
+        className={INPUT_CLASS}
+      />
+    );
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 bg-[#252525] border border-gray-700 rounded-lg shadow-xl z-20 max-h-96 overflow-y-auto">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-700">
+        {view.mode !== "list" && (
+          <button
+            type="button"
+            onClick={() => setView({ mode: "list" })}
+            className="p-1 text-gray-400 hover:text-gray-200 rounded transition-colors"
+            title="Back to templates"
+          >
+            <ArrowLeft size={14} />
+          </button>
+        )}
+        <BookText size={14} className="text-gray-400" />
+        <span className="text-sm font-medium text-gray-200">
+          {view.mode === "fill"
+            ? view.template.name
+            : view.mode === "create"
+            ? "New template"
+            : "Prompt templates"}
+        </span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="ml-auto p-1 text-gray-400 hover:text-gray-200 rounded transition-colors"
+          title="Close"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {/* Template List */}
+      {view.mode === "list" && (
+        <div className="p-1">
+          {templates.length === 0 && (
+            <p className="px-3 py-4 text-xs text-gray-500 text-center">
+              No templates yet
+            </p>
+          )}
+          {templates.map((template) => (
+            <div
+              key={template.id}
+              className="group/template flex items-start gap-2 rounded-md hover:bg-[#2a2a2a] transition-colors"
+            >
+              <button
+                type="button"
+                onClick={() => handleSelect(template)}
+                className="flex-1 min-w-0 px-3 py-2 text-left"
+              >
+                <p className="text-sm text-gray-200">{template.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {template.body}
+                </p>
+              </button>
+              <button
+                type="button"
+                onClick={() => onDeleteTemplate(template.id)}
+                className="m-2 p-1.5 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded opacity-0 group-hover/template:opacity-100 transition-all"
+                title="Delete template"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setView({ mode: "create" })}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 rounded-md hover:bg-[#2a2a2a] transition-colors"
+          >
+            <Plus size={14} />
+            New template
+          </button>
+        </div>
+      )}
+
+      {/* Create Form */}
+      {view.mode === "create" && (
+        <form onSubmit={handleCreate} className="p-4 space-y-3">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Template name"
+            className={INPUT_CLASS}
+            autoFocus
+          />
+          <textarea
+            value={newBody}
+            onChange={(e) => setNewBody(e.target.value)}
+            placeholder="Summarise the risks in {report:document}"
+            rows={3}
+            className={`${INPUT_CLASS} resize-none`}
+          />
+          <p className="text-xs text-gray-500">
+            Use {"{name}"} for free text and {"{name:document}"} to pick a
+            project document.
+          </p>
+          <button
+            type="submit"
+            disabled={!newName.trim() || !newBody.trim() || isSaving}
+            className="w-full px-3 py-2 text-xs font-medium bg-white hover:bg-gray-100 disabled:bg-gray-600 disabled:text-gray-400 text-black rounded-lg transition-colors"
+          >
+            {isSaving ? "Saving..." : "Save template"}
+          </button>
+        </form>
+      )}
+
+      {/* Fill Form */}
+      {view.mode === "fill" && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onInsert(fillTemplate(view.template.body, values));
+          }}
+          className="p-4 space-y-3"
+        >
+          {parseTemplateVariables(view.template.body).map((variable) => (
+            <div key={variable.name} className="space-y-1">
+              <label className="text-xs text-gray-400">{variable.name}</label>
+              {renderVariableInput(variable)}
+            </div>
+          ))}
+          <button
+            type="submit"
+            disabled={parseTemplateVariables(view.template.body).some(
+              (variable) => !values[variable.name]?.trim()
+            )}
+            className="w-full px-3 py-2 text-xs font-medium bg-white hover:bg-gray-100 disabled:bg-gray-600 disabled:text-gray-400 text-black rounded-lg transition-colors"
+          >
+            Use template
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Search } from "lucide-react";
+import { RetrievalTrace } from "@/types";
+
+interface RetrievalTracePanelProps {
+  trace: RetrievalTrace;
+}
+
+const formatScore = (score?: number | null) =>
+  score === undefined || score === null ? "—" : score.toFixed(3);
+
+export function RetrievalTracePanel({ trace }: RetrievalTracePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const keptChunks = trace.chunks.filter((chunk) => chunk.in_final_context);
+  const settingsEntries = Object.entries(trace.settings);
+
+  return (
+    <div className="mt-3 bg-[#202020] border border-gray-800 rounded-lg">
+      {/* Toggle */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-[#252525] rounded-lg transition-colors"
+      >
+        {isOpen ? (
+          <ChevronDown size={14} className="text-gray-400" />
+        ) : (
+          <ChevronRight size={14} className="text-gray-400" />
+        )}
+        <Search size={12} className="text-gray-400" />
+        <span className="text-sm font-medium text-gray-300">
+          Retrieval trace
+        </span>
+        <span className="ml-auto text-xs text-gray-500">
+          {keptChunks.length} of {trace.chunks.length} chunks used
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-5 border-t border-gray-800 pt-4">
+          {/* Sub-queries */}
+          {trace.sub_queries && trace.sub_queries.length > 0 && (
+            <section className="space-y-2">
+              <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wide">
+                Generated queries
+              </h4>
+              <ol className="list-decimal pl-5 space-y-1 text-sm text-gray-300">
+                {trace.sub_queries.map((query, index) => (
+                  <li key={index}>{query}</li>
+                ))}
+              </ol>
+            </section>
+          )}
+
+          {/* Retrieved Chunks */}
+          <section className="space-y-2">
+            <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wide">
+              Retrieved chunks
+            </h4>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs border-collapse">
+                <thead>
+                  <tr className="text-gray-400 text-left">
+                    <th className="py-2 pr-3 font-medium">Source</th>
+                    <th className="py-2 pr-3 font-medium">Vector</th>
+                    <th className="py-2 pr-3 font-medium">Keyword</th>
+                    <th className="py-2 pr-3 font-medium">Rerank</th>
+                    <th className="py-2 font-medium">Context</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {trace.chunks.map((chunk) => (
+                    <tr
+                      key={chunk.chunk_id}
+                      className={`border-t border-gray-800 align-top ${
+                        chunk.in_final_context
+                          ? "text-gray-200"
+                          : "text-gray-500"
+                      }`}
+                    >
+                      <td className="py-2 pr-3 max-w-xs">
+                        <p className="font-medium truncate">
+                          {chunk.filename}{" "}
+                          <span className="text-gray-500">p.{chunk.page}</span>
+                        </p>
+                        <p className="mt-1 line-clamp-2 text-gray-500">
+                          {chunk.content}
+                        </p>
+                      </td>
+                      <td className="py-2 pr-3 font-mono">
+                        {formatScore(chunk.vector_score)}
+                      </td>
+                      <td className="py-2 pr-3 font-mono">
+                        {formatScore(chunk.keyword_score)}
+                      </td>
+                      <td className="py-2 pr-3 font-mono">
+                        {formatScore(chunk.rerank_score)}
+                      </td>
+                      <td className="py-2">
+                        {chunk.in_final_context ? (
+                          <span className="px-2 py-0.5 rounded bg-green-500/20 text-green-400 border border-green-500/30">
+                            Used
+                          </span>
+                        ) : (
+                          <span className="px-2 py-0.5 rounded bg-[#2a2a2a] text-gray-500 border border-gray-700">
+                            Dropped
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {/* Settings Snapshot */}
+          <section className="space-y-2">
+            <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wide">
+              Settings used
+            </h4>
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              {settingsEntries.map(([key, value]) => (
+                <div
+                  key={key}
+                  className="flex items-center justify-between bg-[#252525] rounded px-3 py-2 border border-gray-700"
+                >
+                  <span className="text-gray-400">{key}</span>
+                  <span className="font-mono text-gray-200">
+                    {String(value)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { SlashCommandSuggestion } from "@/lib/slashCommands";
+
+interface SlashCommandMenuProps {
+  suggestions: SlashCommandSuggestion[];
+  highlightedIndex: number;
+  onSelect: (suggestion: SlashCommandSuggestion) => void;
+}
+
+export function SlashCommandMenu({
+  suggestions,
+  highlightedIndex,
+  onSelect,
+}: SlashCommandMenuProps) {
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 bg-[#252525] border border-gray-700 rounded-lg shadow-xl z-20 max-h-64 overflow-y-auto p-1">
+      {suggestions.map((suggestion, index) => (
+        <button
+          key={suggestion.value}
+          type="button"
+          // Keep focus in the textarea so typing can continue
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(suggestion)}
+          className={`w-full flex items-baseline gap-3 px-3 py-2 text-left rounded-md transition-colors ${
+            index === highlightedIndex ? "bg-[#2a2a2a]" : "hover:bg-[#2a2a2a]"
+          }`}
+        >
+          <span className="text-sm font-mono text-gray-200">
+            {suggestion.label}
+          </span>
+          {suggestion.description && (
+            <span className="text-xs text-gray-500 truncate">
+              {suggestion.description}
+            </span>
+          )}
+        </button>
+      ))}
+      <p className="px-3 pt-2 pb-1 text-[10px] text-gray-500 border-t border-gray-700 mt-1">
+        Tab to complete · Enter to run · Esc to dismiss
+      </p>
+    </div>
+  );
+}
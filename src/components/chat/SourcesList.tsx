@@ -0,0 +1,106 @@
+import { FileText, Globe } from "lucide-react";
+import { Citation } from "@/types";
+
+interface SourcesListProps {
+  citations: Citation[];
+  onOpenCitation?: (citation: Citation) => void;
+}
+
+const CARD_CLASS =
+  "w-full text-left flex items-center gap-3 bg-[#252525] hover:bg-[#2a2a2a] rounded-lg px-3 py-2 border border-gray-700 hover:border-gray-600 transition-colors cursor-pointer disabled:cursor-default";
+
+export function SourcesList({ citations, onOpenCitation }: SourcesListProps) {
+  const webCount = citations.filter(
+    (citation) => citation.source_type === "web"
+  ).length;
+  const documentCount = citations.length - webCount;
+
+  return (
+    <div className="mt-6 ml-0">
+      <div className="bg-[#202020] border border-gray-800 rounded-lg p-4">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-5 h-5 bg-[#252525] border border-gray-700 rounded-md flex items-center justify-center">
+            <FileText size={12} className="text-gray-400" />
+          </div>
+          <span className="text-sm font-medium text-gray-300">
+            Sources ({citations.length})
+          </span>
+          {webCount > 0 && (
+            <span className="ml-auto text-xs text-gray-500">
+              {documentCount} documents · {webCount} web
+            </span>
+          )}
+        </div>
+
+        <div className="grid gap-2">
+          {citations.map((citation, citationIndex) => {
+            const isWeb = citation.source_type === "web";
+
+            const cardContent = (
+              <>
+                {/* Citation Number - matches the [n] markers in the answer */}
+                <div className="flex-shrink-0 w-7 h-7 bg-[#2a2a2a] border border-gray-600 rounded-md flex items-center justify-center">
+                  <span className="text-xs font-medium text-gray-300">
+                    {citationIndex + 1}
+                  </span>
+                </div>
+
+                {/* Citation Info */}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-200 truncate">
+                    {citation.filename}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-0.5 truncate">
+                    {isWeb ? citation.url : `Page ${citation.page}`}
+                  </p>
+                  {citation.chunk_text && (
+                    <p className="text-xs text-gray-500 mt-1 line-clamp-2">
+                      {citation.chunk_text}
+                    </p>
+                  )}
+                </div>
+
+                {/* Source Type Badge */}
+                <div className="flex-shrink-0 flex items-center gap-1.5 px-2 py-1 bg-[#2a2a2a] border border-gray-600 rounded-md">
+                  {isWeb ? (
+                    <Globe size={12} className="text-blue-400" />
+                  ) : (
+                    <FileText size={12} className="text-gray-400" />
+                  )}
+                  <span className="text-xs text-gray-400">
+                    {isWeb ? "Web" : "Document"}
+                  </span>
+                </div>
+              </>
+            );
+
+            // Web results open the page itself, documents open in the pipeline viewer
+            return isWeb ? (
+              <a
+                key={citationIndex}
+                href={citation.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={CARD_CLASS}
+                title="Open web page"
+              >
+                {cardContent}
+              </a>
+            ) : (
+              <button
+                key={citationIndex}
+                type="button"
+                onClick={() => onOpenCitation?.(citation)}
+                disabled={!onOpenCitation}
+                className={CARD_CLASS}
+                title="Open source document"
+              >
+                {cardContent}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
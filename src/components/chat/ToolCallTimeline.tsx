@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import {
+  AlertCircle,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  Globe,
+  Loader2,
+  Wrench,
+} from "lucide-react";
+import { ToolCallStep } from "@/types";
+
+interface ToolCallTimelineProps {
+  steps: ToolCallStep[];
+  defaultOpen?: boolean;
+}
+
+const formatDuration = (durationMs?: number) => {
+  if (durationMs === undefined) return null;
+  return durationMs < 1000
+    ? `${durationMs}ms`
+    : `${(durationMs / 1000).toFixed(1)}s`;
+};
+
+const getStepIcon = (status: ToolCallStep["status"]) => {
+  switch (status) {
+    case "completed":
+      return <CheckCircle size={12} className="text-green-400" />;
+    case "failed":
+      return <AlertCircle size={12} className="text-red-400" />;
+    default:
+      return <Loader2 size={12} className="text-blue-400 animate-spin" />;
+  }
+};
+
+export function ToolCallTimeline({
+  steps,
+  defaultOpen = false,
+}: ToolCallTimelineProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+
+  return (
+    <div className="mb-3 pb-3 border-b border-gray-800">
+      {/* Toggle */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 text-xs text-gray-400 hover:text-gray-300 transition-colors"
+      >
+        {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <Wrench size={12} />
+        <span>
+          {steps.length} tool {steps.length === 1 ? "call" : "calls"}
+        </span>
+      </button>
+
+      {isOpen && (
+        <ol className="mt-3 ml-1.5 border-l border-gray-700 space-y-3">
+          {steps.map((step) => (
+            <li key={step.id} className="relative pl-5">
+              <div className="absolute -left-[7px] top-0.5 bg-[#202020]">
+                {getStepIcon(step.status)}
+              </div>
+
+              <div className="flex items-center gap-2 text-xs">
+                <span className="font-medium text-gray-200 font-mono">
+                  {step.tool_name}
+                </span>
+                {formatDuration(step.duration_ms) && (
+                  <span className="text-gray-500">
+                    {formatDuration(step.duration_ms)}
+                  </span>
+                )}
+              </div>
+
+              {/* Arguments */}
+              {Object.keys(step.arguments).length > 0 && (
+                <pre className="mt-1 text-[11px] text-gray-400 bg-[#252525] border border-gray-800 rounded px-2 py-1 overflow-x-auto">
+                  {JSON.stringify(step.arguments, null, 2)}
+                </pre>
+              )}
+
+              {/* Result */}
+              {step.result_summary && (
+                <p className="mt-1 text-xs text-gray-400 line-clamp-3">
+                  {step.result_summary}
+                </p>
+              )}
+
+              {/* Visited Pages */}
+              {step.urls_visited && step.urls_visited.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                  {step.urls_visited.map((url) => (
+                    <li key={url} className="flex items-center gap-1.5 text-xs">
+                      <Globe
+                        size={10}
+                        className="text-gray-500 flex-shrink-0"
+                      />
+                      <a
+                        href={url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-400 hover:text-blue-300 truncate"
+                      >
+                        {url}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { Globe, ThumbsDown } from "lucide-react";
+import { ConversationSort, ConversationView } from "@/lib/conversationView";
+
+interface ConversationViewControlsProps {
+  view: ConversationView;
+  onChangeView: (view: ConversationView) => void;
+}
+
+const SORT_OPTIONS: { value: ConversationSort; label: string }[] = [
+  { value: "last_activity", label: "Last activity" },
+  { value: "created", label: "Date created" },
+];
+
+const filterClassName = (isActive: boolean) =>
+  `flex items-center gap-1.5 px-2.5 py-1 rounded border text-xs transition-colors ${
+    isActive
+      ? "bg-blue-500/20 text-blue-300 border-blue-500/30"
+      : "bg-[#252525] text-gray-400 border-gray-700 hover:text-gray-200"
+  }`;
+
+export function ConversationViewControls({
+  view,
+  onChangeView,
+}: ConversationViewControlsProps) {
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <select
+        value={view.sort}
+        onChange={(e) =>
+          onChangeView({ ...view, sort: e.target.value as ConversationSort })
+        }
+        className="bg-[#252525] border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-gray-600"
+        title="Sort conversations"
+      >
+        {SORT_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      <button
+        onClick={() =>
+          onChangeView({
+            ...view,
+            onlyNegativeFeedback: !view.onlyNegativeFeedback,
+          })
+        }
+        className={filterClassName(view.onlyNegativeFeedback)}
+        title="Only chats with a disliked answer"
+      >
+        <ThumbsDown size={12} />
+        Negative feedback
+      </button>
+
+      <button
+        onClick={() =>
+          onChangeView({ ...view, onlyWebSearch: !view.onlyWebSearch })
+        }
+        className={filterClassName(view.onlyWebSearch)}
+        title="Only chats with answers from web search"
+      >
+        <Globe size={12} />
+        Web search
+      </button>
+    </div>
+  );
+}
@@ -1,5 +1,25 @@
-import { MessageSquare, Plus, AlertCircle, Trash2 } from "lucide-react";
-import { Project, Chat } from "@/types";
+import { useState } from "react";
+import {
+  MessageSquare,
+  Plus,
+  AlertCircle,
+  Trash2,
+  Pin,
+  PinOff,
+  PencilLine,
+  Square,
+  SquareCheck,
+  X,
+} from "lucide-react";
+import { Project, Chat, MessageSearchResult } from "@/types";
+import { EditableText } from "@/components/ui/EditableText";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { ConversationView, groupConversations } from "@/lib/conversationView";
+import { MessageSearch } from "./MessageSearch";
+import { ConversationViewControls } from "./ConversationViewControls";
+
+const hasSettingsOverride = (chat: Chat) =>
+  !!chat.settings_override && Object.keys(chat.settings_override).length > 0;
 
 interface ConversationsListProps {
   project: Project;
@@ -8,7 +28,14 @@ interface ConversationsListProps {
   loading: boolean;
   onCreateNewChat: () => void;
   onChatClick: (chatId: string) => void;
-  onDeleteChat: (chatId: string) => void;
+  onRenameChat: (chatId: string, title: string) => void;
+  onDeleteChats: (chatIds: string[]) => void;
+  onTogglePinChat: (chatId: string) => void;
+  view: ConversationView;
+  onChangeView: (view: ConversationView) => void;
+  draftChatIds: string[];
+  onSearchMessages: (query: string) => Promise<MessageSearchResult[]>;
+  onSearchResultClick: (result: MessageSearchResult) => void;
 }
 
 export function ConversationsList({
@@ -18,9 +45,66 @@ export function ConversationsList({
   loading,
   onCreateNewChat,
   onChatClick,
-  onDeleteChat,
+  onRenameChat,
+  onDeleteChats,
+  onTogglePinChat,
+  view,
+  onChangeView,
+  draftChatIds,
+  onSearchMessages,
+  onSearchResultClick,
 }: ConversationsListProps) {
   const hasConversations = conversations.length > 0;
+  const groups = groupConversations(conversations, view);
+  const orderedChats = groups.flatMap((group) => group.chats);
+  const visibleCount = orderedChats.length;
+
+  const [selectedChatIds, setSelectedChatIds] = useState<string[]>([]);
+  // Last chat clicked without shift, where shift-click ranges start from
+  const [selectionAnchorId, setSelectionAnchorId] = useState<string | null>(
+    null
+  );
+  const [chatIdsToDelete, setChatIdsToDelete] = useState<string[]>([]);
+
+  // A filter can hide selected chats, only the ones still listed stay selected
+  const visibleSelectedIds = selectedChatIds.filter((id) =>
+    orderedChats.some((chat) => chat.id === id)
+  );
+
+  const handleToggleSelect = (chatId: string, isRange: boolean) => {
+    const anchorIndex = orderedChats.findIndex(
+      (chat) => chat.id === selectionAnchorId
+    );
+    const clickedIndex = orderedChats.findIndex((chat) => chat.id === chatId);
+
+    if (isRange && anchorIndex !== -1) {
+      const rangeIds = orderedChats
+        .slice(
+          Math.min(anchorIndex, clickedIndex),
+          Math.max(anchorIndex, clickedIndex) + 1
+        )
+        .map((chat) => chat.id);
+      setSelectedChatIds(
+        Array.from(new Set([...visibleSelectedIds, ...rangeIds]))
+      );
+      return;
+    }
+
+    setSelectedChatIds(
+      visibleSelectedIds.includes(chatId)
+        ? visibleSelectedIds.filter((id) => id !== chatId)
+        : [...visibleSelectedIds, chatId]
+    );
+    setSelectionAnchorId(chatId);
+  };
+
+  const handleConfirmDelete = () => {
+    onDeleteChats(chatIdsToDelete);
+    setSelectedChatIds((prev) =>
+      prev.filter((id) => !chatIdsToDelete.includes(id))
+    );
+    setChatIdsToDelete([]);
+  };
 
   return (
     <div className="flex-1 flex flex-col bg-[#1a1a1a] rounded-xl overflow-hidden">
@@ -69,6 +153,16 @@ export function ConversationsList({
             </button>
           </div>
 
+          {/* Message Search */}
+          {hasConversations && (
+            <div className="mb-8">
+              <MessageSearch
+                onSearch={onSearchMessages}
+                onResultClick={onSearchResultClick}
+              />
+            </div>
+          )}
+
           {/* Conversations Section */}
           <section className="space-y-4">
             <div className="flex items-center justify-between">
@@ -76,10 +170,44 @@ export function ConversationsList({
                 Conversations
               </h2>
               <span className="text-xs text-gray-400 bg-[#252525] px-2 py-1 rounded">
-                {conversations.length}
+                {visibleCount === conversations.length
+                  ? conversations.length
+                  : `${visibleCount} of ${conversations.length}`}
               </span>
             </div>
 
+            {hasConversations && (
+              <ConversationViewControls
+                view={view}
+                onChangeView={onChangeView}
+              />
+            )}
+
+            {/* Bulk Actions */}
+            {visibleSelectedIds.length > 0 && (
+              <div className="flex items-center justify-between bg-[#252525] border border-gray-700 rounded-lg px-4 py-2">
+                <span className="text-sm text-gray-300">
+                  {visibleSelectedIds.length} selected
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setChatIdsToDelete(visibleSelectedIds)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-red-300 bg-red-500/10 hover:bg-red-500/20 border border-red-500/20 rounded transition-colors"
+                  >
+                    <Trash2 size={12} />
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setSelectedChatIds([])}
+                    className="p-1.5 text-gray-400 hover:text-gray-200 hover:bg-[#2a2a2a] rounded transition-colors"
+                    title="Clear selection"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              </div>
+            )}
+
             {!hasConversations ? (
               <div className="text-center py-16">
                 <div className="w-12 h-12 bg-[#252525] border border-gray-700 rounded-lg mx-auto mb-6 flex items-center justify-center">
@@ -110,42 +238,116 @@ export function ConversationsList({
                   )}
                 </button>
               </div>
+            ) : visibleCount === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">
+                No conversations match the selected filters
+              </p>
             ) : (
-              <div className="space-y-2">
-                {conversations.map((chat) => (
-                  <div
-                    key={chat.id}
-                    onClick={() => onChatClick(chat.id)}
-                    className="group bg-[#202020] hover:bg-[#252525] border border-gray-800 hover:border-gray-700 rounded-lg p-4 transition-colors cursor-pointer"
-                  >
-                    <div className="flex items-center gap-4">
-                      {/* Chat Icon */}
-                      <div className="w-8 h-8 bg-[#252525] border border-gray-700 rounded-lg flex items-center justify-center flex-shrink-0 group-hover:bg-[#2a2a2a] transition-colors">
-                        <MessageSquare
-                          size={14}
-                          className="text-gray-400 group-hover:text-gray-300"
-                        />
-                      </div>
+              <div className="space-y-6">
+                {groups.map((group) => (
+                  <div key={group.label} className="space-y-2">
+                    <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+                      {group.label}
+                    </h3>
+                    {group.chats.map((chat) => (
+                      <div
+                        key={chat.id}
+                        onClick={() => onChatClick(chat.id)}
+                        className="group bg-[#202020] hover:bg-[#252525] border border-gray-800 hover:border-gray-700 rounded-lg p-4 transition-colors cursor-pointer"
+                      >
+                        <div className="flex items-center gap-4">
+                          {/* Select Checkbox, shift-click selects a range */}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleToggleSelect(chat.id, e.shiftKey);
+                            }}
+                            className={`text-gray-500 hover:text-gray-300 transition-opacity ${
+                              visibleSelectedIds.length > 0
+                                ? "opacity-100"
+                                : "opacity-0 group-hover:opacity-100"
+                            }`}
+                            title="Select chat"
+                          >
+                            {visibleSelectedIds.includes(chat.id) ? (
+                              <SquareCheck
+                                size={16}
+                                className="text-blue-400"
+                              />
+                            ) : (
+                              <Square size={16} />
+                            )}
+                          </button>
 
-                      {/* Chat Info */}
-                      <div className="flex-1 min-w-0">
-                        <h3 className="font-medium text-gray-200 group-hover:text-white truncate transition-colors">
-                          {chat.title}
-                        </h3>
-                      </div>
+                          {/* Chat Icon */}
+                          <div className="w-8 h-8 bg-[#252525] border border-gray-700 rounded-lg flex items-center justify-center flex-shrink-0 group-hover:bg-[#2a2a2a] transition-colors">
+                            <MessageSquare
+                              size={14}
+                              className="text-gray-400 group-hover:text-gray-300"
+                            />
+                          </div>
 
-                      {/* Delete Button */}
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onDeleteChat(chat.id);
-                        }}
-                        className="p-1.5 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded transition-all duration-200 opacity-0 group-hover:opacity-100 cursor-pointer hover:scale-110"
-                        title="Delete chat"
-                      >
-                        <Trash2 size={12} />
-                      </button>
-                    </div>
+                          {/* Chat Info */}
+                          <div className="flex-1 min-w-0">
+                            <EditableText
+                              value={chat.title}
+                              onSave={(title) => onRenameChat(chat.id, title)}
+                              className="font-medium text-gray-200 group-hover:text-white transition-colors"
+                              title="Rename chat"
+                            />
+                            {/* Badges */}
+                            {(draftChatIds.includes(chat.id) ||
+                              hasSettingsOverride(chat)) && (
+                              <div className="flex items-center gap-1.5 mt-1">
+                                {draftChatIds.includes(chat.id) && (
+                                  <span className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-300 border border-blue-500/30">
+                                    <PencilLine size={10} />
+                                    Draft
+                                  </span>
+                                )}
+                                {hasSettingsOverride(chat) && (
+                                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-300 border border-amber-500/30">
+                                    Custom settings
+                                  </span>
+                                )}
+                              </div>
+                            )}
+                          </div>
+
+                          {/* Pin Button */}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onTogglePinChat(chat.id);
+                            }}
+                            className={`p-1.5 rounded transition-all duration-200 cursor-pointer hover:scale-110 hover:bg-[#2a2a2a] ${
+                              chat.is_pinned
+                                ? "text-yellow-400 hover:text-yellow-300"
+                                : "text-gray-500 hover:text-gray-300 opacity-0 group-hover:opacity-100"
+                            }`}
+                            title={chat.is_pinned ? "Unpin chat" : "Pin chat"}
+                          >
+                            {chat.is_pinned ? (
+                              <PinOff size={12} />
+                            ) : (
+                              <Pin size={12} />
+                            )}
+                          </button>
+
+                          {/* Delete Button */}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setChatIdsToDelete([chat.id]);
+                            }}
+                            className="p-1.5 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded transition-all duration-200 opacity-0 group-hover:opacity-100 cursor-pointer hover:scale-110"
+                            title="Delete chat"
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 ))}
               </div>
@@ -153,6 +355,18 @@ export function ConversationsList({
           </section>
         </div>
       </div>
+
+      <ConfirmDialog
+        isOpen={chatIdsToDelete.length > 0}
+        title={
+          chatIdsToDelete.length === 1
+            ? "Delete conversation?"
+            : `Delete ${chatIdsToDelete.length} conversations?`
+        }
+        description="Their messages will be removed. You can undo for a few seconds afterwards."
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setChatIdsToDelete([])}
+      />
     </div>
   );
 }
@@ -3,7 +3,9 @@
 import { useState, useEffect } from "react";
 import { useAuth, useUser } from "@clerk/nextjs";
 import { apiClient } from "@/lib";
-import { ProjectDocument } from "@/types";
+import toast from "react-hot-toast";
+import { DocumentVersion, ProjectDocument } from "@/types";
+import { getProcessingError } from "@/lib/documentProcessing";
 import { GenericStep } from "./document-details/GenericStep";
 import { PartitioningStep } from "./document-details/PartitioningStep";
 import { ChunkingStep } from "./document-details/ChunkingStep";
@@ -13,10 +15,17 @@ import { PipelineTabs } from "./document-details/PipelineTabs";
 import { DetailInspector } from "./document-details/DetailInspector";
 import { ModalHeader } from "./document-details/ModalHeader";
 import { Modal } from "./document-details/Modal";
+import { VersionHistory } from "./document-details/VersionHistory";
 
 interface FileDetailsModalProps {
   document: ProjectDocument;
   onClose: () => void;
+  // Opens the chunks view with this chunk selected (e.g. from a chat citation)
+  initialChunkId?: string;
+  // Called with the updated document after rolling back to an older version
+  onDocumentUpdated?: (document: ProjectDocument) => void;
+  // Restart processing from the failed step, or from scratch
+  onReprocess?: (fromScratch: boolean) => void;
 }
 
 const PIPELINE_STEPS = [
@@ -57,15 +66,29 @@ const PIPELINE_STEPS = [
   },
 ];
 
-export function FileDetailsModal({ document, onClose }: FileDetailsModalProps) {
+export function FileDetailsModal({
+  document,
+  onClose,
+  initialChunkId,
+  onDocumentUpdated,
+  onReprocess,
+}: FileDetailsModalProps) {
   const [activeTab, setActiveTab] = useState<string>("uploading");
   const { getToken, userId } = useAuth();
 
   const [selectedChunk, setSelectedChunk] = useState<any>(null);
   const [chunks, setChunks] = useState<any[]>([]);
   const [chunksLoading, setChunksLoading] = useState(false);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [versionsLoading, setVersionsLoading] = useState(false);
+  const [rollingBackVersionId, setRollingBackVersionId] = useState<
+    string | null
+  >(null);
 
-  const currentStatus = document.processing_status || "uploading";
+  const processingError = getProcessingError(document);
+  // A failed document sits on the step it failed at
+  const currentStatus =
+    processingError?.step || document.processing_status || "uploading";
   const isProcessingComplete = currentStatus === "completed";
   const processingDetails = document?.processing_details as any;
   const currentStep = PIPELINE_STEPS.find((s) => s.id === activeTab);
@@ -77,7 +100,8 @@ export function FileDetailsModal({ document, onClose }: FileDetailsModalProps) {
     const stepPos = PIPELINE_STEPS.findIndex((step) => step.id === stepId);
 
     if (stepPos < currentPos) return "completed";
-    if (stepPos === currentPos) return "processing";
+    if (stepPos === currentPos)
+      return processingError ? "failed" : "processing";
     return "pending";
   };
 
@@ -105,6 +129,12 @@ export function FileDetailsModal({ document, onClose }: FileDetailsModalProps) {
       }));
 
       setChunks(chunks);
+
+      if (initialChunkId) {
+        setSelectedChunk(
+          chunks.find((chunk: any) => chunk.id === initialChunkId) ?? null
+        );
+      }
     } catch (error) {
       console.error("Error loading chunks:", error);
       setChunks([]);
@@ -113,36 +143,119 @@ export function FileDetailsModal({ document, onClose }: FileDetailsModalProps) {
     }
   };
 
+  const handleRollback = async (versionId: string) => {
+    try {
+      setRollingBackVersionId(versionId);
+      const token = await getToken();
+      const result = await apiClient.post(
+        `/api/project/${document.project_id}/files/${document.id}/versions/${versionId}/rollback`,
+        {},
+        token
+      );
+      onDocumentUpdated?.(result.data);
+      toast.success("Rolled back to the selected version");
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to roll back document";
+      toast.error(errorMessage);
+    } finally {
+      setRollingBackVersionId(null);
+    }
+  };
+
+  // Reload when a new version is uploaded or an old one restored
   useEffect(() => {
     if (isProcessingComplete) {
       loadChunks();
     }
-  }, [isProcessingComplete, document?.id]);
+  }, [isProcessingComplete, document?.id, document?.active_version_id]);
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      if (activeTab !== "versions" || !userId) return;
+
+      try {
+        setVersionsLoading(true);
+        const token = await getToken();
+        const result = await apiClient.get(
+          `/api/project/${document.project_id}/files/${document.id}/versions`,
+          token
+        );
+        setVersions(result.data);
+      } catch (error) {
+        console.error("Error loading versions:", error);
+        setVersions([]);
+      } finally {
+        setVersionsLoading(false);
+      }
+    };
+    loadVersions();
+  }, [
+    activeTab,
+    document.project_id,
+    document.id,
+    document.active_version_id,
+    userId,
+    getToken,
+  ]);
 
   useEffect(() => {
     if (document) {
-      setActiveTab(currentStatus);
+      setActiveTab(
+        initialChunkId && isProcessingComplete ? "completed" : currentStatus
+      );
       setSelectedChunk(null);
       setChunks([]);
     }
   }, [document?.id]);
 
+  // Only the tab of the step that failed shows the error and a retry
+  const failedStepProps =
+    processingError && activeTab === processingError.step
+      ? {
+          errorMessage: processingError.message,
+          onRetry: onReprocess ? () => onReprocess(false) : undefined,
+        }
+      : {};
+
   return (
     <Modal onClose={onClose}>
-      <ModalHeader document={document} onClose={onClose} />
+      <ModalHeader
+        document={document}
+        onClose={onClose}
+        onReprocess={
+          onReprocess &&
+          ["completed", "failed"].includes(document.processing_status)
+            ? () => onReprocess(true)
+            : undefined
+        }
+      />
 
       <PipelineTabs
         activeTab={activeTab}
         onTabChange={setActiveTab}
-        tabs={PIPELINE_STEPS.map((step) => ({
-          id: step.id,
-          name: step.name,
-          enabled:
-            step.id === "completed"
-              ? isProcessingComplete
-              : getStepStatus(step.id) !== "pending",
-          icon: <div></div>,
-        }))}
+        tabs={[
+          ...PIPELINE_STEPS.map((step) => ({
+            id: step.id,
+            name: step.name,
+            enabled:
+              step.id === "completed"
+                ? isProcessingComplete
+                : getStepStatus(step.id) !== "pending",
+            icon: <div></div>,
+          })),
+          // Websites are re-crawled, not versioned
+          ...(document.source_url
+            ? []
+            : [
+                {
+                  id: "versions",
+                  name: "Versions",
+                  enabled: true,
+                  icon: <div></div>,
+                },
+              ]),
+        ]}
       />
 
       <div className="flex-1 flex overflow-hidden">
@@ -163,6 +276,7 @@ export function FileDetailsModal({ document, onClose }: FileDetailsModalProps) {
             <PartitioningStep
               status={getStepStatus("partitioning")}
               elementsFound={processingDetails?.partitioning?.elements_found}
+              {...failedStepProps}
             />
           )}
 
@@ -173,6 +287,7 @@ export function FileDetailsModal({ document, onClose }: FileDetailsModalProps) {
               chunkingData={processingDetails?.chunking}
               chunks={chunks}
               partitioningData={processingDetails?.partitioning}
+              {...failedStepProps}
             />
           )}
 
@@ -181,17 +296,34 @@ export function FileDetailsModal({ document, onClose }: FileDetailsModalProps) {
             <SummarisingStep
               status={getStepStatus("summarising")}
               summarisingData={processingDetails?.summarising}
+              {...failedStepProps}
+            />
+          )}
+
+          {/* Show Version History */}
+          {activeTab === "versions" && (
+            <VersionHistory
+              versions={versions}
+              versionsLoading={versionsLoading}
+              activeVersionId={document.active_version_id}
+              rollingBackVersionId={rollingBackVersionId}
+              onRollback={handleRollback}
             />
           )}
 
           {/* Show Generic Steps for other steps */}
-          {!["completed", "partitioning", "chunking", "summarising"].includes(
-            activeTab
-          ) && (
+          {![
+            "completed",
+            "partitioning",
+            "chunking",
+            "summarising",
+            "versions",
+          ].includes(activeTab) && (
             <GenericStep
               stepName={currentStep?.name || "Processing"}
               description={currentStep?.description || "Processing step"}
               status={getStepStatus(activeTab)}
+              {...failedStepProps}
             />
           )}
         </div>
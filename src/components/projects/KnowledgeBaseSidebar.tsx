@@ -1,6 +1,7 @@
 "use client";
 
 import { useDropzone } from "react-dropzone";
+import toast from "react-hot-toast";
 import {
   FileText,
   Settings,
@@ -14,33 +15,43 @@ import {
   Loader2,
   Trash2,
   Info,
+  FileUp,
+  RotateCcw,
 } from "lucide-react";
-import { ProjectSettings, ProjectDocument } from "@/types";
-import { JSX, useState } from "react";
+import {
+  ProjectSettings,
+  ProjectDocument,
+  UploadTask,
+  DuplicateResolution,
+} from "@/types";
+import { JSX, useRef, useState } from "react";
+import { AGENT_MODE_OPTIONS, STRATEGY_OPTIONS } from "@/lib/settingsOptions";
+import { StoredMultipartUpload } from "@/lib/multipartUpload";
+import { getProcessingError } from "@/lib/documentProcessing";
+import { UploadQueue } from "./UploadQueue";
 
 // Constants
-const STRATEGY_OPTIONS = [
-  {
-    value: "basic",
-    label: "Vector Search",
-    description: "Semantic similarity matching",
-  },
-  {
-    value: "hybrid",
-    label: "Hybrid Search",
-    description: "Semantic + keyword matching",
-  },
-  {
-    value: "multi-query-vector",
-    label: "Multi-Query Vector",
-    description: "Multiple semantic queries",
-  },
-  {
-    value: "multi-query-hybrid",
-    label: "Multi-Query Hybrid",
-    description: "Multiple hybrid queries",
-  },
-];
+// Shared by the dropzone and the "Upload new version" picker
+const DOCUMENT_ACCEPT: Record<string, string[]> = {
+  "application/pdf": [".pdf", ".txt", ".md", ".pptx", ".docx"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [
+    ".docx",
+  ],
+  "text/csv": [".csv"],
+};
+// Large files are uploaded in parts, see lib/multipartUpload
+const MAX_DOCUMENT_SIZE = 5 * 1024 * 1024 * 1024;
+
+const DOCUMENT_ACCEPT_TYPES = Object.entries(DOCUMENT_ACCEPT).flatMap(
+  ([mimeType, extensions]) => [mimeType, ...extensions]
+);
+
+// The file picker's accept list is only a hint, so the new version is checked like a dropped file
+const isAcceptedDocument = (file: File) =>
+  DOCUMENT_ACCEPT_TYPES.includes(file.type) ||
+  DOCUMENT_ACCEPT_TYPES.includes(
+    file.name.slice(file.name.lastIndexOf(".")).toLowerCase()
+  );
 
 const RERANKING_MODELS = [
   { value: "rerank-english-v3.0", label: "rerank-english-v3.0" },
@@ -50,19 +61,6 @@ const EMBEDDING_MODELS = [
   { value: "text-embedding-3-large", label: "text-embedding-3-large" },
 ];
 
-const AGENT_MODE_OPTIONS = [
-  {
-    value: "simple",
-    label: "Simple RAG",
-    description: "Documents-only search",
-  },
-  {
-    value: "agentic",
-    label: "Agentic RAG",
-    description: "Smart tool selection with web search",
-  },
-];
-
 // Utility functions
 const documentUtils = {
   formatFileSize: (bytes: number) => {
@@ -221,8 +219,20 @@ interface KnowledgeBaseSidebarProps {
   activeTab: "documents" | "settings";
   onSetActiveTab: (tab: "documents" | "settings") => void;
   projectDocuments: ProjectDocument[];
-  onDocumentUpload: (docs: File[]) => Promise<void>;
+  onDocumentUpload: (docs: File[]) => void;
+  onUploadNewVersion: (docId: string, file: File) => void;
+  uploadTasks: UploadTask[];
+  onCancelUpload: (taskId: string) => void;
+  onRetryUpload: (taskId: string) => void;
+  onResolveDuplicateUpload: (
+    taskId: string,
+    resolution: DuplicateResolution
+  ) => void;
+  onClearFinishedUploads: () => void;
+  interruptedUploads: StoredMultipartUpload[];
+  onDiscardInterruptedUpload: (fingerprint: string) => void;
   onDocumentDelete: (docId: string) => Promise<void>;
+  onReprocessDocuments: (docIds: string[], fromScratch: boolean) => void;
   onOpenDocument: (docId: string) => void;
   onUrlAdd: (url: string) => Promise<void>;
   projectSettings: ProjectSettings | null;
@@ -237,7 +247,16 @@ export function KnowledgeBaseSidebar({
   onSetActiveTab,
   projectDocuments,
   onDocumentUpload,
+  onUploadNewVersion,
+  uploadTasks,
+  onCancelUpload,
+  onRetryUpload,
+  onResolveDuplicateUpload,
+  onClearFinishedUploads,
+  interruptedUploads,
+  onDiscardInterruptedUpload,
   onDocumentDelete,
+  onReprocessDocuments,
   onOpenDocument,
   onUrlAdd,
   projectSettings,
@@ -248,16 +267,18 @@ export function KnowledgeBaseSidebar({
 }: KnowledgeBaseSidebarProps) {
   const [urlInput, setUrlInput] = useState("");
   const [isAddingUrl, setIsAddingUrl] = useState(false);
+  // One hidden file input shared by every document's "Upload new version" button
+  const versionInputRef = useRef<HTMLInputElement>(null);
+  const [versionTargetId, setVersionTargetId] = useState<string | null>(null);
+
+  const failedDocumentIds = projectDocuments
+    .filter((doc) => doc.processing_status === "failed")
+    .map((doc) => doc.id);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop: onDocumentUpload,
-    accept: {
-      "application/pdf": [".pdf", ".txt", ".md", ".pptx", ".docx"],
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
-        [".docx"],
-      "text/csv": [".csv"],
-    },
-    maxSize: 50 * 1024 * 1024,
+    accept: DOCUMENT_ACCEPT,
+    maxSize: MAX_DOCUMENT_SIZE,
   });
 
   const handleUrlSubmit = async (e: React.FormEvent) => {
@@ -406,12 +427,22 @@ export function KnowledgeBaseSidebar({
                     <p className="text-xs text-gray-400 mt-1">
                       {isDragActive
                         ? "Release to upload"
-                        : "PDF, DOCX, CSV • Max 50GB"}
+                        : "PDF, DOCX, CSV • Max 5 GB"}
                     </p>
                   </div>
                 </div>
               </div>
 
+              <UploadQueue
+                tasks={uploadTasks}
+                onCancel={onCancelUpload}
+                onRetry={onRetryUpload}
+                onResolveDuplicate={onResolveDuplicateUpload}
+                onClearFinished={onClearFinishedUploads}
+                interruptedUploads={interruptedUploads}
+                onDiscardInterrupted={onDiscardInterruptedUpload}
+              />
+
               {/* URL Input */}
               <div className="flex items-center gap-3">
                 <div className="flex-1 border-t border-gray-800"></div>
@@ -458,11 +489,44 @@ export function KnowledgeBaseSidebar({
 
             {/* Documents List */}
             <section className="space-y-4">
+              <input
+                ref={versionInputRef}
+                type="file"
+                accept={DOCUMENT_ACCEPT_TYPES.join(",")}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file && !isAcceptedDocument(file)) {
+                    toast.error(`${file.name} isn't a supported file type`);
+                  } else if (file && file.size > MAX_DOCUMENT_SIZE) {
+                    toast.error(`${file.name} is larger than 5 GB`);
+                  } else if (file && versionTargetId) {
+                    onUploadNewVersion(versionTargetId, file);
+                  }
+                  setVersionTargetId(null);
+                  // Allow picking the same file again
+                  e.target.value = "";
+                }}
+              />
               <div className="flex items-center justify-between">
                 <h3 className="text-sm font-medium text-gray-200">Sources</h3>
-                <span className="text-xs text-gray-400 bg-[#252525] px-2 py-1 rounded">
-                  {projectDocuments.length}
-                </span>
+                <div className="flex items-center gap-2">
+                  {failedDocumentIds.length > 0 && (
+                    <button
+                      onClick={() =>
+                        onReprocessDocuments(failedDocumentIds, false)
+                      }
+                      className="flex items-center gap-1 text-xs text-red-300 hover:text-red-200 bg-red-500/10 border border-red-500/20 px-2 py-1 rounded transition-colors"
+                      title="Retry every failed source from the step it failed at"
+                    >
+                      <RotateCcw size={10} />
+                      Retry {failedDocumentIds.length} failed
+                    </button>
+                  )}
+                  <span className="text-xs text-gray-400 bg-[#252525] px-2 py-1 rounded">
+                    {projectDocuments.length}
+                  </span>
+                </div>
               </div>
 
               {projectDocuments.length === 0 ? (
@@ -500,16 +564,36 @@ export function KnowledgeBaseSidebar({
                               <h4 className="text-sm font-medium text-gray-200 truncate group-hover:text-white transition-colors">
                                 {documentUtils.getDisplayName(doc)}
                               </h4>
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  onDocumentDelete(doc.id);
-                                }}
-                                className="p-1 text-gray-500 hover:text-gray-300 hover:bg-[#2a2a2a] rounded transition-colors opacity-0 group-hover:opacity-100"
-                                title="Delete source"
-                              >
-                                <Trash2 size={12} />
-                              </button>
+                              {doc.version_number && doc.version_number > 1 && (
+                                <span className="flex-shrink-0 text-[10px] text-gray-400 bg-[#2a2a2a] px-1.5 py-0.5 rounded">
+                                  v{doc.version_number}
+                                </span>
+                              )}
+                              <div className="flex items-center gap-1">
+                                {!doc.source_url && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setVersionTargetId(doc.id);
+                                      versionInputRef.current?.click();
+                                    }}
+                                    className="p-1 text-gray-500 hover:text-gray-300 hover:bg-[#2a2a2a] rounded transition-colors opacity-0 group-hover:opacity-100"
+                                    title="Upload new version"
+                                  >
+                                    <FileUp size={12} />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    onDocumentDelete(doc.id);
+                                  }}
+                                  className="p-1 text-gray-500 hover:text-gray-300 hover:bg-[#2a2a2a] rounded transition-colors opacity-0 group-hover:opacity-100"
+                                  title="Delete source"
+                                >
+                                  <Trash2 size={12} />
+                                </button>
+                              </div>
                             </div>
                             <div className="flex items-center justify-between mt-1">
                               <div className="flex items-center gap-2 text-xs text-gray-500">
@@ -533,6 +617,27 @@ export function KnowledgeBaseSidebar({
                                   </div>
                                 )}
                             </div>
+                            {getProcessingError(doc) && (
+                              <div className="flex items-center gap-2 mt-2">
+                                <p
+                                  className="flex-1 min-w-0 text-xs text-red-400 truncate"
+                                  title={getProcessingError(doc)?.message}
+                                >
+                                  {getProcessingError(doc)?.message}
+                                </p>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    onReprocessDocuments([doc.id], false);
+                                  }}
+                                  className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-200 hover:bg-[#2a2a2a] px-1.5 py-0.5 rounded transition-colors"
+                                  title="Retry from the failed step"
+                                >
+                                  <RotateCcw size={10} />
+                                  Reprocess
+                                </button>
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Search, Loader2, X, User, Bot } from "lucide-react";
+import { MessageSearchResult } from "@/types";
+
+interface MessageSearchProps {
+  onSearch: (query: string) => Promise<MessageSearchResult[]>;
+  onResultClick: (result: MessageSearchResult) => void;
+}
+
+const SNIPPET_RADIUS = 60;
+const MIN_QUERY_LENGTH = 2;
+
+// Cuts the content down to the first match with some context on both sides
+const getSnippetParts = (content: string, query: string) => {
+  const matchIndex = content.toLowerCase().indexOf(query.toLowerCase());
+  if (matchIndex === -1) {
+    return {
+      before: content.slice(0, SNIPPET_RADIUS * 2),
+      match: "",
+      after: "",
+    };
+  }
+
+  const start = Math.max(0, matchIndex - SNIPPET_RADIUS);
+  const end = Math.min(
+    content.length,
+    matchIndex + query.length + SNIPPET_RADIUS
+  );
+
+  return {
+    before: (start > 0 ? "…" : "") + content.slice(start, matchIndex),
+    match: content.slice(matchIndex, matchIndex + query.length),
+    after:
+      content.slice(matchIndex + query.length, end) +
+      (end < content.length ? "…" : ""),
+  };
+};
+
+export function MessageSearch({ onSearch, onResultClick }: MessageSearchProps) {
+  const [query, setQuery] = useState("");
+  // Results are kept with the query they answer, so an older list never shows under a new query
+  const [search, setSearch] = useState<{
+    query: string;
+    results: MessageSearchResult[];
+  } | null>(null);
+
+  const trimmedQuery = query.trim();
+  const isActive = trimmedQuery.length >= MIN_QUERY_LENGTH;
+  // Covers the debounce as well as the request itself
+  const isSearching = isActive && search?.query !== trimmedQuery;
+  const results = search?.results ?? [];
+
+  // Debounce so we only hit the server once typing pauses
+  useEffect(() => {
+    if (!isActive) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const found = await onSearch(trimmedQuery);
+        if (!cancelled) setSearch({ query: trimmedQuery, results: found });
+      } catch (error) {
+        console.error("Message search failed:", error);
+        if (!cancelled) setSearch({ query: trimmedQuery, results: [] });
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [trimmedQuery, isActive, onSearch]);
+
+  return (
+    <div className="space-y-3">
+      {/* Search Box */}
+      <div className="relative">
+        <Search
+          size={14}
+          className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400"
+        />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search messages in this project..."
+          className="w-full pl-10 pr-10 py-2.5 bg-[#202020] border border-gray-800 rounded-lg focus:outline-none focus:border-gray-600 text-sm text-gray-100 placeholder:text-gray-500 transition-colors"
+        />
+        {query && (
+          <button
+            onClick={() => setQuery("")}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-300"
+            title="Clear search"
+          >
+            {isSearching ? (
+              <Loader2 size={14} className="animate-spin" />
+            ) : (
+              <X size={14} />
+            )}
+          </button>
+        )}
+      </div>
+
+      {/* Results */}
+      {isActive && !isSearching && (
+        <div className="bg-[#202020] border border-gray-800 rounded-lg divide-y divide-gray-800">
+          {results.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500 text-center">
+              No messages match "{trimmedQuery}"
+            </p>
+          ) : (
+            results.map((result) => {
+              const snippet = getSnippetParts(result.content, trimmedQuery);
+              return (
+                <button
+                  key={result.message_id}
+                  onClick={() => onResultClick(result)}
+                  className="w-full text-left p-3 hover:bg-[#252525] transition-colors first:rounded-t-lg last:rounded-b-lg"
+                >
+                  <div className="flex items-center gap-2 text-xs text-gray-400 mb-1">
+                    {result.role === "user" ? (
+                      <User size={12} />
+                    ) : (
+                      <Bot size={12} />
+                    )}
+                    <span className="font-medium text-gray-300 truncate">
+                      {result.chat_title}
+                    </span>
+                    <span className="ml-auto flex-shrink-0">
+                      {new Date(result.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-400 line-clamp-2">
+                    {snippet.before}
+                    <mark className="bg-yellow-400/20 text-yellow-200 rounded px-0.5">
+                      {snippet.match}
+                    </mark>
+                    {snippet.after}
+                  </p>
+                </button>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import {
+  AlertCircle,
+  CheckCircle,
+  Copy,
+  Loader2,
+  PauseCircle,
+  RotateCcw,
+  X,
+} from "lucide-react";
+import {
+  DuplicateResolution,
+  UploadStatus,
+  UploadStep,
+  UploadTask,
+} from "@/types";
+import {
+  MULTIPART_PART_SIZE,
+  StoredMultipartUpload,
+} from "@/lib/multipartUpload";
+
+interface UploadQueueProps {
+  tasks: UploadTask[];
+  onCancel: (taskId: string) => void;
+  onRetry: (taskId: string) => void;
+  onResolveDuplicate: (taskId: string, resolution: DuplicateResolution) => void;
+  onClearFinished: () => void;
+  interruptedUploads: StoredMultipartUpload[];
+  onDiscardInterrupted: (fingerprint: string) => void;
+}
+
+const STATUS_TEXT: Record<UploadStatus, string> = {
+  hashing: "Checking",
+  duplicate: "Duplicate",
+  queued: "Waiting",
+  presigning: "Preparing",
+  uploading: "Uploading",
+  confirming: "Finishing",
+  completed: "Uploaded",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const STEP_TEXT: Record<UploadStep, string> = {
+  presign: "Could not start the upload",
+  upload: "Upload to storage failed",
+  confirm: "Could not register the file",
+};
+
+// The confirm step can't be undone on the server, so it can't be cancelled either
+const CANCELLABLE_STATUSES: UploadStatus[] = [
+  "hashing",
+  "queued",
+  "presigning",
+  "uploading",
+];
+
+const DUPLICATE_ACTIONS: { value: DuplicateResolution; label: string }[] = [
+  { value: "skip", label: "Skip" },
+  { value: "replace", label: "Replace" },
+  { value: "keep_both", label: "Keep both" },
+];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export function UploadQueue({
+  tasks,
+  onCancel,
+  onRetry,
+  onResolveDuplicate,
+  onClearFinished,
+  interruptedUploads,
+  onDiscardInterrupted,
+}: UploadQueueProps) {
+  if (tasks.length === 0 && interruptedUploads.length === 0) return null;
+
+  const hasFinished = tasks.some((task) =>
+    ["completed", "failed", "cancelled"].includes(task.status)
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-gray-400">Uploads</span>
+        {hasFinished && (
+          <button
+            onClick={onClearFinished}
+            className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      {/* Multipart uploads left unfinished by a reload */}
+      {interruptedUploads.map((upload) => (
+        <div
+          key={upload.fingerprint}
+          className="bg-[#202020] border border-dashed border-amber-500/40 rounded-lg p-3 space-y-1"
+        >
+          <div className="flex items-center gap-2">
+            <PauseCircle size={12} className="text-amber-400" />
+            <span className="flex-1 min-w-0 text-xs text-gray-200 truncate">
+              {upload.filename}
+            </span>
+            <span className="text-xs text-gray-500 flex-shrink-0">
+              {Math.min(
+                100,
+                Math.round(
+                  ((upload.parts.length * MULTIPART_PART_SIZE) /
+                    upload.file_size) *
+                    100
+                )
+              )}
+              %
+            </span>
+            <button
+              onClick={() => onDiscardInterrupted(upload.fingerprint)}
+              className="p-1 text-gray-400 hover:text-red-400 rounded transition-colors"
+              title="Discard upload"
+            >
+              <X size={12} />
+            </button>
+          </div>
+          <p className="text-xs text-amber-400">
+            Interrupted. Drop the same file again to resume.
+          </p>
+        </div>
+      ))}
+
+      {tasks.map((task) => {
+        const percent =
+          task.file.size > 0
+            ? Math.round((task.uploaded_bytes / task.file.size) * 100)
+            : 0;
+
+        return (
+          <div
+            key={task.id}
+            className="bg-[#202020] border border-gray-800 rounded-lg p-3 space-y-2"
+          >
+            <div className="flex items-center gap-2">
+              {task.status === "completed" ? (
+                <CheckCircle size={12} className="text-green-400" />
+              ) : task.status === "failed" ? (
+                <AlertCircle size={12} className="text-red-400" />
+              ) : task.status === "duplicate" ? (
+                <Copy size={12} className="text-amber-400" />
+              ) : task.status === "cancelled" ? (
+                <X size={12} className="text-gray-500" />
+              ) : (
+                <Loader2 size={12} className="text-gray-400 animate-spin" />
+              )}
+              <span className="flex-1 min-w-0 text-xs text-gray-200 truncate">
+                {task.file.name}
+              </span>
+              <span className="text-xs text-gray-500 flex-shrink-0">
+                {task.status === "uploading"
+                  ? `${percent}%`
+                  : STATUS_TEXT[task.status]}
+              </span>
+
+              {task.status === "failed" && (
+                <button
+                  onClick={() => onRetry(task.id)}
+                  className="p-1 text-gray-400 hover:text-gray-200 rounded transition-colors"
+                  title="Retry"
+                >
+                  <RotateCcw size={12} />
+                </button>
+              )}
+              {CANCELLABLE_STATUSES.includes(task.status) && (
+                <button
+                  onClick={() => onCancel(task.id)}
+                  className="p-1 text-gray-400 hover:text-red-400 rounded transition-colors"
+                  title="Cancel upload"
+                >
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+
+            {["uploading", "confirming"].includes(task.status) && (
+              <div className="space-y-1">
+                <div className="h-1 bg-[#2a2a2a] rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 transition-all"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                <p className="text-[10px] text-gray-500">
+                  {formatBytes(task.uploaded_bytes)} of{" "}
+                  {formatBytes(task.file.size)}
+                </p>
+              </div>
+            )}
+
+            {task.status === "failed" && (
+              <p className="text-xs text-red-400">
+                {task.failed_step ? STEP_TEXT[task.failed_step] : "Failed"}
+                {task.error && (
+                  <span className="text-gray-500">: {task.error}</span>
+                )}
+              </p>
+            )}
+
+            {task.status === "duplicate" && task.duplicate_of && (
+              <div className="space-y-2">
+                <p className="text-xs text-amber-400">
+                  Same content as{" "}
+                  <span className="text-gray-300">
+                    {task.duplicate_of.filename}
+                  </span>
+                  {task.duplicate_in_queue && " in this upload"}
+                </p>
+                <div className="flex gap-2">
+                  {/* There's no document to replace until the other copy is uploaded */}
+                  {DUPLICATE_ACTIONS.filter(
+                    (action) =>
+                      !task.duplicate_in_queue || action.value !== "replace"
+                  ).map((action) => (
+                    <button
+                      key={action.value}
+                      onClick={() => onResolveDuplicate(task.id, action.value)}
+                      className="flex-1 px-2 py-1 text-xs text-gray-300 bg-[#252525] border border-gray-700 hover:bg-[#2a2a2a] rounded transition-colors"
+                    >
+                      {action.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@ import { GenericStep } from "./GenericStep";
 
 interface ChunkingStepProps {
   status: "completed" | "processing" | "failed" | "pending";
+  errorMessage?: string;
+  onRetry?: () => void;
   chunkingData?: {
     total_chunks: number;
   };
@@ -14,6 +16,8 @@ interface ChunkingStepProps {
 
 export function ChunkingStep({
   status,
+  errorMessage,
+  onRetry,
   chunkingData,
   chunks,
   partitioningData,
@@ -24,6 +28,8 @@ export function ChunkingStep({
         stepName="Chunking"
         description="Creating semantic chunks"
         status={status}
+        errorMessage={errorMessage}
+        onRetry={onRetry}
       />
     );
   }
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Search, FileText, Loader2 } from "lucide-react";
 
 interface ChunksViewerProps {
@@ -18,6 +18,15 @@ export function ChunksViewer({
     "all" | "text" | "image" | "table"
   >("all");
   const [searchQuery, setSearchQuery] = useState("");
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Bring a chunk selected from outside the list (e.g. a citation) into view
+  useEffect(() => {
+    if (!selectedChunk) return;
+    listRef.current
+      ?.querySelector(`[data-chunk-id="${selectedChunk.id}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [selectedChunk, chunksLoading]);
 
   const filteredChunks = chunks.filter((chunk) => {
     const matchesFilter =
@@ -75,7 +84,7 @@ export function ChunksViewer({
       </div>
 
       {/* Chunks List */}
-      <div className="flex-1 overflow-y-auto p-6">
+      <div ref={listRef} className="flex-1 overflow-y-auto p-6">
         {chunksLoading ? (
           <div className="flex items-center justify-center h-full">
             <div className="flex items-center gap-3">
@@ -95,6 +104,7 @@ export function ChunksViewer({
             {filteredChunks.map((chunk) => (
               <div
                 key={chunk.id}
+                data-chunk-id={chunk.id}
                 onClick={() => onSelectChunk(chunk)}
                 className={`p-4 border rounded-lg cursor-pointer transition-all ${
                   selectedChunk?.id === chunk.id
@@ -1,15 +1,25 @@
-import { CheckCircle, Loader2, AlertCircle, Clock } from "lucide-react";
+import {
+  CheckCircle,
+  Loader2,
+  AlertCircle,
+  Clock,
+  RotateCcw,
+} from "lucide-react";
 
 interface GenericStepProps {
   stepName: string;
   description: string;
   status: "completed" | "processing" | "failed" | "pending";
+  errorMessage?: string;
+  onRetry?: () => void;
 }
 
 export function GenericStep({
   stepName,
   description,
   status,
+  errorMessage,
+  onRetry,
 }: GenericStepProps) {
   const getIcon = () => {
     switch (status) {
@@ -48,13 +58,27 @@ export function GenericStep({
         );
       case "failed":
         return (
-          <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+          <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 space-y-3">
             <div className="flex items-center justify-center gap-2">
               <AlertCircle className="w-5 h-5 text-red-400" />
               <span className="text-red-300 font-medium">
                 Processing failed at this step
               </span>
             </div>
+            {errorMessage && (
+              <p className="text-sm text-red-200/80 break-words">
+                {errorMessage}
+              </p>
+            )}
+            {onRetry && (
+              <button
+                onClick={onRetry}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-[#252525] border border-gray-700 hover:bg-[#2a2a2a] text-gray-200 rounded-lg transition-colors"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Retry from this step
+              </button>
+            )}
           </div>
         );
       default:
@@ -1,12 +1,17 @@
-import { X, FileText, Globe } from "lucide-react";
-import { ProjectDocument } from "@/lib/types";
+import { X, FileText, Globe, RefreshCw } from "lucide-react";
+import { ProjectDocument } from "@/types";
 
 interface ModalHeaderProps {
   document: ProjectDocument;
   onClose: () => void;
+  onReprocess?: () => void;
 }
 
-export function ModalHeader({ document, onClose }: ModalHeaderProps) {
+export function ModalHeader({
+  document,
+  onClose,
+  onReprocess,
+}: ModalHeaderProps) {
   return (
     <div className="flex items-center justify-between p-6 border-b border-gray-700">
       <div className="flex items-center gap-3">
@@ -20,12 +25,24 @@ export function ModalHeader({ document, onClose }: ModalHeaderProps) {
           <p className="text-sm text-gray-400">Processing Pipeline</p>
         </div>
       </div>
-      <button
-        onClick={onClose}
-        className="text-gray-400 hover:text-gray-300 transition-colors p-2 hover:bg-[#2a2a2a] rounded-lg"
-      >
-        <X size={20} />
-      </button>
+      <div className="flex items-center gap-2">
+        {onReprocess && (
+          <button
+            onClick={onReprocess}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-gray-300 bg-[#252525] border border-gray-700 hover:bg-[#2a2a2a] rounded-lg transition-colors"
+            title="Run the whole pipeline again"
+          >
+            <RefreshCw size={14} />
+            Reprocess
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-300 transition-colors p-2 hover:bg-[#2a2a2a] rounded-lg"
+        >
+          <X size={20} />
+        </button>
+      </div>
     </div>
   );
 }
@@ -3,6 +3,8 @@ import { GenericStep } from "./GenericStep";
 
 interface PartitioningStepProps {
   status: "completed" | "processing" | "failed" | "pending";
+  errorMessage?: string;
+  onRetry?: () => void;
   elementsFound?: {
     text: number;
     tables: number;
@@ -14,6 +16,8 @@ interface PartitioningStepProps {
 
 export function PartitioningStep({
   status,
+  errorMessage,
+  onRetry,
   elementsFound,
 }: PartitioningStepProps) {
   if (!elementsFound || status !== "completed") {
@@ -22,6 +26,8 @@ export function PartitioningStep({
         stepName="Partitioning"
         description="Processing and extracting text, images, and tables"
         status={status}
+        errorMessage={errorMessage}
+        onRetry={onRetry}
       />
     );
   }
@@ -3,6 +3,8 @@ import { Loader2, CheckCircle } from "lucide-react";
 
 interface SummarisingStepProps {
   status: "completed" | "processing" | "failed" | "pending";
+  errorMessage?: string;
+  onRetry?: () => void;
   summarisingData?: {
     current_chunk: number;
     total_chunks: number;
@@ -11,6 +13,8 @@ interface SummarisingStepProps {
 
 export function SummarisingStep({
   status,
+  errorMessage,
+  onRetry,
   summarisingData,
 }: SummarisingStepProps) {
   if (!summarisingData) {
@@ -19,6 +23,8 @@ export function SummarisingStep({
         stepName="Summarisation"
         description="Enhancing content with AI summaries for images and tables"
         status={status}
+        errorMessage={errorMessage}
+        onRetry={onRetry}
       />
     );
   }
@@ -117,6 +123,8 @@ export function SummarisingStep({
       stepName="Summarisation"
       description="Enhancing content with AI summaries for images and tables"
       status={status}
+      errorMessage={errorMessage}
+      onRetry={onRetry}
     />
   );
 }
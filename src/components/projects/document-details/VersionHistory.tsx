@@ -0,0 +1,102 @@
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { DocumentVersion } from "@/types";
+
+interface VersionHistoryProps {
+  versions: DocumentVersion[];
+  versionsLoading: boolean;
+  activeVersionId?: string;
+  rollingBackVersionId: string | null;
+  onRollback: (versionId: string) => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export function VersionHistory({
+  versions,
+  versionsLoading,
+  activeVersionId,
+  rollingBackVersionId,
+  onRollback,
+}: VersionHistoryProps) {
+  if (versionsLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 p-12 text-sm text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading versions...
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="max-w-2xl mx-auto space-y-4">
+        <div className="flex items-center gap-2">
+          <History size={16} className="text-gray-400" />
+          <h3 className="text-lg font-medium text-gray-100">Version history</h3>
+        </div>
+        <p className="text-sm text-gray-400">
+          Rolling back makes chats search that version&apos;s chunks again.
+          Newer versions are kept.
+        </p>
+
+        <div className="space-y-2">
+          {[...versions]
+            .sort((a, b) => b.version_number - a.version_number)
+            .map((version) => {
+              const isActive = version.id === activeVersionId;
+              return (
+                <div
+                  key={version.id}
+                  className={`flex items-center gap-4 bg-[#202020] border rounded-lg p-4 ${
+                    isActive ? "border-blue-500/30" : "border-gray-800"
+                  }`}
+                >
+                  <span className="text-sm font-medium text-gray-300 w-8">
+                    v{version.version_number}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-200 truncate">
+                      {version.filename}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatFileSize(version.file_size)} •{" "}
+                      {new Date(version.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  {isActive ? (
+                    <span className="text-xs text-blue-300 bg-blue-500/20 border border-blue-500/30 px-2 py-1 rounded">
+                      Active
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => onRollback(version.id)}
+                      disabled={
+                        rollingBackVersionId !== null ||
+                        version.processing_status !== "completed"
+                      }
+                      className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-300 bg-[#252525] border border-gray-700 hover:bg-[#2a2a2a] disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+                      title={
+                        version.processing_status !== "completed"
+                          ? "Only processed versions can be restored"
+                          : undefined
+                      }
+                    >
+                      {rollingBackVersionId === version.id ? (
+                        <Loader2 size={12} className="animate-spin" />
+                      ) : (
+                        <RotateCcw size={12} />
+                      )}
+                      Roll back
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from "react";
+import { Pencil } from "lucide-react";
+
+interface EditableTextProps {
+  value: string;
+  onSave: (value: string) => void;
+  className?: string;
+  title?: string;
+}
+
+// Text that turns into an input via a pencil button: Enter or blur saves, Escape cancels
+export function EditableText({
+  value,
+  onSave,
+  className = "",
+  title = "Rename",
+}: EditableTextProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+
+  const startEditing = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDraft(value);
+    setIsEditing(true);
+  };
+
+  const commit = () => {
+    setIsEditing(false);
+    const trimmed = draft.trim();
+    if (trimmed && trimmed !== value) {
+      onSave(trimmed);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      commit();
+    } else if (e.key === "Escape") {
+      setIsEditing(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={commit}
+        onClick={(e) => e.stopPropagation()}
+        autoFocus
+        maxLength={120}
+        className={`w-full bg-[#252525] border border-gray-600 rounded-md px-2 py-0.5 focus:outline-none focus:border-gray-500 ${className}`}
+      />
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 min-w-0 group/editable">
+      <span className={`truncate ${className}`}>{value}</span>
+      <button
+        onClick={startEditing}
+        className="p-1 text-gray-500 hover:text-gray-300 opacity-0 group-hover/editable:opacity-100 transition-opacity flex-shrink-0"
+        title={title}
+      >
+        <Pencil size={12} />
+      </button>
+    </div>
+  );
+}
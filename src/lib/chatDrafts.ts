@@ -0,0 +1,54 @@
+// Unsent chat input, kept in localStorage per chat so it survives navigation
+import { MessageAttachment } from "@/types";
+
+// Files can't be stored, so only their details are kept to prompt a re-attach
+export type DraftAttachment = Pick<
+  MessageAttachment,
+  "filename" | "file_type" | "file_size"
+>;
+
+export interface ChatDraft {
+  content: string;
+  attachments: DraftAttachment[];
+  updated_at: string;
+}
+
+const storageKey = (chatId: string) => `chat-draft:${chatId}`;
+
+export function loadChatDraft(chatId: string): ChatDraft | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const stored = localStorage.getItem(storageKey(chatId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+// An empty draft removes the stored one
+export function saveChatDraft(
+  chatId: string,
+  draft: Omit<ChatDraft, "updated_at">
+) {
+  if (!draft.content.trim() && draft.attachments.length === 0) {
+    clearChatDraft(chatId);
+    return;
+  }
+  try {
+    localStorage.setItem(
+      storageKey(chatId),
+      JSON.stringify({ ...draft, updated_at: new Date().toISOString() })
+    );
+  } catch (err) {
+    // Storage full or blocked: the draft just isn't kept, typing carries on
+    console.error("Failed to save chat draft:", err);
+  }
+}
+
+export function clearChatDraft(chatId: string) {
+  localStorage.removeItem(storageKey(chatId));
+}
+
+export function hasChatDraft(chatId: string) {
+  return loadChatDraft(chatId) !== null;
+}
@@ -0,0 +1,175 @@
+// Conversation exports: Markdown transcript, JSON dump and a printable HTML view
+import { createElement, ReactElement } from "react";
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+import { ChatWithMessages, Citation, Message } from "@/types";
+import { replaceCitationMarkers } from "@/lib/citationMarkers";
+import { MarkdownContent } from "@/components/chat/MarkdownContent";
+
+const formatCitation = (citation: Citation) =>
+  citation.source_type === "web"
+    ? `${citation.filename} (${citation.url})`
+    : `${citation.filename}, page ${citation.page}`;
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// React's way to get a component's HTML in the browser, without a server renderer
+const renderToHtml = (element: ReactElement) => {
+  const container = document.createElement("div");
+  const root = createRoot(container);
+  flushSync(() => root.render(element));
+  const html = container.innerHTML;
+  root.unmount();
+  return html;
+};
+
+const safeFilename = (title: string) =>
+  title
+    .replace(/[^a-z0-9-_ ]/gi, "")
+    .trim()
+    .replace(/\s+/g, "-") || "chat";
+
+// Citations become footnotes numbered per message, [n] markers point at them
+export function chatToMarkdown(
+  chat: ChatWithMessages,
+  thread: Message[]
+): string {
+  const sections = thread.map((message) => {
+    const speaker = message.role === "user" ? "You" : "Assistant";
+    const time = new Date(message.created_at).toLocaleString();
+    const footnoteId = (index: number) => `${message.id.slice(0, 8)}-${index}`;
+
+    const content = replaceCitationMarkers(
+      message.content,
+      message.citations?.length ?? 0,
+      (index) => `[^${footnoteId(index)}]`
+    );
+    const footnotes = (message.citations ?? []).map(
+      (citation, index) =>
+        `[^${footnoteId(index + 1)}]: ${formatCitation(citation)}`
+    );
+
+    return [
+      `### ${speaker} — ${time}`,
+      "",
+      content,
+      ...(footnotes.length > 0 ? ["", ...footnotes] : []),
+    ].join("\n");
+  });
+
+  return [`# ${chat.title}`, "", ...sections].join("\n\n");
+}
+
+// Full dump: every branch, citations, traces and feedback
+export function chatToJson(chat: ChatWithMessages): string {
+  return JSON.stringify(
+    { ...chat, exported_at: new Date().toISOString() },
+    null,
+    2
+  );
+}
+
+export function chatToPrintableHtml(
+  chat: ChatWithMessages,
+  thread: Message[]
+): string {
+  const messagesHtml = thread
+    .map((message) => {
+      const citations = (message.citations ?? [])
+        .map(
+          (citation, index) =>
+            `<li>[${index + 1}] ${escapeHtml(formatCitation(citation))}</li>`
+        )
+        .join("");
+
+      return `
+        <section class="message ${message.role}">
+          <h2>${message.role === "user" ? "You" : "Assistant"}
+            <span>${escapeHtml(
+              new Date(message.created_at).toLocaleString()
+            )}</span>
+          </h2>
+          ${
+            message.role === "user"
+              ? `<div class="content question">${escapeHtml(
+                  message.content
+                )}</div>`
+              : `<div class="content">${renderToHtml(
+                  createElement(MarkdownContent, {
+                    content: message.content,
+                    citations: message.citations ?? [],
+                    printable: true,
+                  })
+                )}</div>`
+          }
+          ${citations ? `<ol class="sources">${citations}</ol>` : ""}
+        </section>`;
+    })
+    .join("");
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(chat.title)}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; color: #111; max-width: 760px; margin: 40px auto; padding: 0 24px; }
+      h1 { font-size: 22px; margin-bottom: 24px; }
+      .message { border-top: 1px solid #ddd; padding: 16px 0; break-inside: avoid; }
+      .message h2 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.04em; color: #555; margin: 0 0 8px; }
+      .message h2 span { font-weight: normal; text-transform: none; margin-left: 8px; color: #888; }
+      .message.user .content { font-weight: 600; }
+      .content { font-size: 14px; line-height: 1.6; }
+      .content.question { white-space: pre-wrap; }
+      .content > div > :first-child { margin-top: 0; }
+      .content pre { background: #f5f5f5; border: 1px solid #ddd; border-radius: 4px; padding: 12px; font-size: 12px; white-space: pre-wrap; }
+      .content code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+      .content table { border-collapse: collapse; font-size: 13px; }
+      .content th, .content td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+      .content blockquote { border-left: 3px solid #ccc; margin-left: 0; padding-left: 12px; color: #555; }
+      .content sup { font-size: 10px; color: #555; }
+      /* The print window has no KaTeX stylesheet, so math shows through its MathML */
+      .katex-html { display: none; }
+      .sources { font-size: 12px; color: #555; margin: 12px 0 0; padding-left: 0; list-style: none; }
+      @media print { body { margin: 0; } }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(chat.title)}</h1>
+    ${messagesHtml}
+  </body>
+</html>`;
+}
+
+export function downloadFile(
+  title: string,
+  extension: string,
+  content: string,
+  mimeType: string
+) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${safeFilename(title)}.${extension}`;
+  link.click();
+  // Revoking straight after the click can cancel the download in Safari and Firefox
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Opens the printable view in a new tab and brings up the print dialog ("Save as PDF")
+export function openPrintView(html: string) {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) {
+    throw new Error("Pop-up blocked, allow pop-ups to print this chat");
+  }
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
@@ -0,0 +1,22 @@
+// Chat titles: placeholder names for new chats and fallbacks for generated titles
+
+const DEFAULT_TITLE_PATTERN = /^Chat #\d+$/;
+const MAX_TITLE_LENGTH = 60;
+
+export function createDefaultChatTitle() {
+  const chatNumber = Date.now() % 10000; // Generate a random chat number
+  return `Chat #${chatNumber}`;
+}
+
+// Only placeholder titles get replaced automatically, never one the user typed
+export function isDefaultChatTitle(title: string) {
+  return DEFAULT_TITLE_PATTERN.test(title);
+}
+
+// Used when the server cannot generate a title: the first question, shortened
+export function buildFallbackTitle(question: string) {
+  const singleLine = question.replace(/\s+/g, " ").trim();
+  return singleLine.length > MAX_TITLE_LENGTH
+    ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : singleLine;
+}
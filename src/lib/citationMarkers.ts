@@ -0,0 +1,119 @@
+// [n] markers in an answer that point at its nth citation, found in the markdown syntax tree
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+
+export const CITATION_HREF_PREFIX = "#cite-";
+
+const CITATION_MARKER = /\[(\d+)\]/g;
+// In the raw source, an escaped \[1] is literal text and not a marker
+const CITATION_MARKER_IN_SOURCE = /(?<!\\)\[(\d+)\]/g;
+
+// The slice of the markdown syntax tree the citation helpers touch
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MarkdownNode[];
+  position?: { start: { offset?: number }; end: { offset?: number } };
+}
+
+// Only plain text is visited: code, inline code and math keep their value
+// outside of text nodes, and existing links aren't nested
+function mapTextNodes(
+  node: MarkdownNode,
+  map: (text: MarkdownNode) => MarkdownNode[]
+) {
+  if (!node.children) return;
+  node.children = node.children.flatMap((child) => {
+    if (child.type === "text") return map(child);
+    if (child.type !== "link" && child.type !== "linkReference") {
+      mapTextNodes(child, map);
+    }
+    return [child];
+  });
+}
+
+// Splits a text node around [n] markers that match a citation, turning them into links
+function splitCitationMarkers(text: string, citationCount: number) {
+  const nodes: MarkdownNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_MARKER)) {
+    const index = Number(match[1]);
+    const start = match.index ?? 0;
+    if (index < 1 || index > citationCount) continue;
+
+    if (start > lastIndex) {
+      nodes.push({ type: "text", value: text.slice(lastIndex, start) });
+    }
+    nodes.push({
+      type: "link",
+      url: `${CITATION_HREF_PREFIX}${index}`,
+      children: [{ type: "text", value: String(index) }],
+    });
+    lastIndex = start + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push({ type: "text", value: text.slice(lastIndex) });
+  }
+  return nodes;
+}
+
+// Remark plugin: [n] markers become links to CITATION_HREF_PREFIX + n
+export function remarkCitationLinks({
+  citationCount,
+}: {
+  citationCount: number;
+}) {
+  return (tree: MarkdownNode) =>
+    mapTextNodes(tree, (text) =>
+      splitCitationMarkers(text.value ?? "", citationCount)
+    );
+}
+
+// Rewrites the [n] markers of a markdown string and leaves the rest of the source as written
+export function replaceCitationMarkers(
+  markdown: string,
+  citationCount: number,
+  toMarker: (index: number) => string
+) {
+  const tree: MarkdownNode = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkMath)
+    .parse(markdown);
+
+  const markers: { start: number; end: number; index: number }[] = [];
+  mapTextNodes(tree, (text) => {
+    const start = text.position?.start.offset;
+    const end = text.position?.end.offset;
+    if (start === undefined || end === undefined) return [text];
+
+    const source = markdown.slice(start, end);
+    for (const match of source.matchAll(CITATION_MARKER_IN_SOURCE)) {
+      const index = Number(match[1]);
+      if (index < 1 || index > citationCount) continue;
+      const markerStart = start + (match.index ?? 0);
+      markers.push({
+        start: markerStart,
+        end: markerStart + match[0].length,
+        index,
+      });
+    }
+    return [text];
+  });
+
+  // Replace from the end so earlier offsets stay valid
+  return markers
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, marker) =>
+        text.slice(0, marker.start) +
+        toMarker(marker.index) +
+        text.slice(marker.end),
+      markdown
+    );
+}
@@ -0,0 +1,86 @@
+// How the conversations list is sorted, filtered and grouped, remembered per project
+import { Chat } from "@/types";
+
+export type ConversationSort = "last_activity" | "created";
+
+export interface ConversationView {
+  sort: ConversationSort;
+  onlyNegativeFeedback: boolean;
+  onlyWebSearch: boolean;
+}
+
+export interface ConversationGroup {
+  label: string;
+  chats: Chat[];
+}
+
+export const DEFAULT_CONVERSATION_VIEW: ConversationView = {
+  sort: "last_activity",
+  onlyNegativeFeedback: false,
+  onlyWebSearch: false,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const storageKey = (projectId: string) => `conversation-view:${projectId}`;
+
+export function loadConversationView(projectId: string): ConversationView {
+  if (typeof window === "undefined") return DEFAULT_CONVERSATION_VIEW;
+  try {
+    const stored = localStorage.getItem(storageKey(projectId));
+    return stored
+      ? { ...DEFAULT_CONVERSATION_VIEW, ...JSON.parse(stored) }
+      : DEFAULT_CONVERSATION_VIEW;
+  } catch {
+    return DEFAULT_CONVERSATION_VIEW;
+  }
+}
+
+export function saveConversationView(
+  projectId: string,
+  view: ConversationView
+) {
+  localStorage.setItem(storageKey(projectId), JSON.stringify(view));
+}
+
+// Chats without any messages yet fall back to when they were created
+const getSortDate = (chat: Chat, sort: ConversationSort) =>
+  new Date(
+    sort === "last_activity"
+      ? chat.last_message_at ?? chat.created_at
+      : chat.created_at
+  ).getTime();
+
+const getDateBucket = (timestamp: number) => {
+  const startOfToday = new Date().setHours(0, 0, 0, 0);
+  if (timestamp >= startOfToday) return "Today";
+  if (timestamp >= startOfToday - 6 * DAY_MS) return "Last 7 days";
+  return "Older";
+};
+
+// Pinned chats come first in their own group, the rest are bucketed by date
+export function groupConversations(
+  chats: Chat[],
+  view: ConversationView
+): ConversationGroup[] {
+  const visible = chats
+    .filter((chat) => !view.onlyNegativeFeedback || chat.has_negative_feedback)
+    .filter((chat) => !view.onlyWebSearch || chat.has_web_results)
+    .sort((a, b) => getSortDate(b, view.sort) - getSortDate(a, view.sort));
+
+  const groups: ConversationGroup[] = [
+    { label: "Pinned", chats: visible.filter((chat) => chat.is_pinned) },
+    { label: "Today", chats: [] },
+    { label: "Last 7 days", chats: [] },
+    { label: "Older", chats: [] },
+  ];
+
+  visible
+    .filter((chat) => !chat.is_pinned)
+    .forEach((chat) => {
+      const bucket = getDateBucket(getSortDate(chat, view.sort));
+      groups.find((group) => group.label === bucket)?.chats.push(chat);
+    });
+
+  return groups.filter((group) => group.chats.length > 0);
+}
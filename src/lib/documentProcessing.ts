@@ -0,0 +1,25 @@
+// Why and where a document's processing pipeline failed, read from processing_details.error
+import { ProjectDocument } from "@/types";
+
+export interface ProcessingError {
+  // Pipeline step id, e.g. "partitioning" or "vectorization"
+  step: string;
+  message: string;
+}
+
+// Failures recorded before the step was stored are shown on the first processing step
+const DEFAULT_FAILED_STEP = "partitioning";
+
+export function getProcessingError(
+  document: ProjectDocument
+): ProcessingError | null {
+  if (document.processing_status !== "failed") return null;
+
+  const error = document.processing_details?.error as
+    | Partial<ProcessingError>
+    | undefined;
+  return {
+    step: error?.step ?? DEFAULT_FAILED_STEP,
+    message: error?.message ?? "Processing failed",
+  };
+}
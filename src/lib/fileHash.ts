@@ -0,0 +1,74 @@
+// SHA-256 of a file's contents, used to spot documents that are already in the project
+import { ProjectDocument } from "@/types";
+
+// Web Crypto can't hash incrementally, so the whole file is read into memory
+export const MAX_HASHABLE_SIZE = 512 * 1024 * 1024;
+
+type HashResponse =
+  | { id: number; hash: string }
+  | { id: number; error: string };
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+// Each file is read whole, so files are hashed one after another to keep only one in memory
+let hashQueue: Promise<unknown> = Promise.resolve();
+const pendingRequests = new Map<
+  number,
+  { resolve: (hash: string) => void; reject: (err: Error) => void }
+>();
+
+// One worker for the whole page; requests are matched to responses by id
+function getWorker() {
+  if (!worker) {
+    worker = new Worker(new URL("./fileHash.worker.ts", import.meta.url));
+    worker.onmessage = (event: MessageEvent<HashResponse>) => {
+      const request = pendingRequests.get(event.data.id);
+      if (!request) return;
+      pendingRequests.delete(event.data.id);
+      if ("hash" in event.data) {
+        request.resolve(event.data.hash);
+      } else {
+        request.reject(new Error(event.data.error));
+      }
+    };
+    // A worker that fails to load or crashes (e.g. out of memory) answers nothing,
+    // so fail everything waiting on it and start a fresh one next time
+    worker.onerror = (event) => {
+      event.preventDefault();
+      failPendingRequests(event.message || "File hashing worker crashed");
+    };
+    worker.onmessageerror = () =>
+      failPendingRequests("File hashing worker sent an unreadable response");
+  }
+  return worker;
+}
+
+function failPendingRequests(reason: string) {
+  worker?.terminate();
+  worker = null;
+  pendingRequests.forEach((request) => request.reject(new Error(reason)));
+  pendingRequests.clear();
+}
+
+function requestHash(file: File): Promise<string> {
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    const hashWorker = getWorker();
+    pendingRequests.set(id, { resolve, reject });
+    hashWorker.postMessage({ id, file });
+  });
+}
+
+// Resolves with null for files too large to hash
+export function hashFile(file: File): Promise<string | null> {
+  if (file.size > MAX_HASHABLE_SIZE) return Promise.resolve(null);
+
+  const hash = hashQueue.then(() => requestHash(file));
+  hashQueue = hash.catch(() => undefined);
+  return hash;
+}
+
+export const findDuplicateDocument = (
+  hash: string,
+  documents: ProjectDocument[]
+) => documents.find((doc) => doc.content_hash === hash) ?? null;
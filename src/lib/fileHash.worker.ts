@@ -0,0 +1,21 @@
+// Hashes files off the main thread so large PDFs don't freeze the page
+self.onmessage = async (event: MessageEvent<{ id: number; file: File }>) => {
+  const { id, file } = event.data;
+  try {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      await file.arrayBuffer()
+    );
+    const hash = Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+    self.postMessage({ id, hash });
+  } catch (err) {
+    self.postMessage({
+      id,
+      error: err instanceof Error ? err.message : "Failed to hash file",
+    });
+  }
+};
+
+export {};
@@ -1,4 +1,6 @@
 // Basic API Client with Authentication Support
+// Every verb takes an optional AbortSignal so callers can cancel in-flight requests
+import { ChatStreamEvent } from "@/types";
 
 const BASE_URL = process.env.NEXT_PUBLIC_BACKEND_SERVER_URL;
 if (!BASE_URL) {
@@ -7,7 +9,11 @@ if (!BASE_URL) {
   );
 }
 export const apiClient = {
-  get: async (endpoint: string, token?: string | null) => {
+  get: async (
+    endpoint: string,
+    token?: string | null,
+    signal?: AbortSignal
+  ) => {
     const headers: HeadersInit = {};
     if (token) {
       headers["Authorization"] = `Bearer ${token}`;
@@ -15,6 +21,7 @@ export const apiClient = {
 
     const response = await fetch(`${BASE_URL}${endpoint}`, {
       headers,
+      signal,
     });
 
     if (!response.ok) {
@@ -24,7 +31,12 @@ export const apiClient = {
     return response.json();
   },
 
-  post: async (endpoint: string, data: any, token?: string | null) => {
+  post: async (
+    endpoint: string,
+    data: any,
+    token?: string | null,
+    signal?: AbortSignal
+  ) => {
     const headers: HeadersInit = {
       "Content-Type": "application/json",
     };
@@ -36,6 +48,7 @@ export const apiClient = {
       method: "POST",
       headers,
       body: JSON.stringify(data), // This is the body of the request to be sent to the server in JSON format
+      signal,
     });
 
     if (!response.ok) {
@@ -44,7 +57,13 @@ export const apiClient = {
     return response.json();
   },
 
-  delete: async (endpoint: string, token?: string | null) => {
+  // keepalive lets the request finish when it's sent while the page is closing
+  delete: async (
+    endpoint: string,
+    token?: string | null,
+    signal?: AbortSignal,
+    keepalive = false
+  ) => {
     const headers: HeadersInit = {};
     if (token) {
       headers["Authorization"] = `Bearer ${token}`;
@@ -53,6 +72,8 @@ export const apiClient = {
     const response = await fetch(`${BASE_URL}${endpoint}`, {
       method: "DELETE",
       headers,
+      signal,
+      keepalive,
     });
 
     if (!response.ok) {
@@ -61,7 +82,12 @@ export const apiClient = {
     return response.json();
   },
 
-  put: async (endpoint: string, data: any, token?: string | null) => {
+  put: async (
+    endpoint: string,
+    data: any,
+    token?: string | null,
+    signal?: AbortSignal
+  ) => {
     const headers: HeadersInit = {
       "Content-Type": "application/json",
     };
@@ -74,6 +100,7 @@ export const apiClient = {
       method: "PUT",
       headers,
       body: JSON.stringify(data),
+      signal,
     });
 
     if (!response.ok) {
@@ -82,17 +109,123 @@ export const apiClient = {
 
     return response.json();
   },
-  uploadToS3: async (presignedUrl: string, file: File) => {
+  // Streams a POST response sent as Server-Sent Events ("data: {...}\n\n")
+  // and hands every parsed event to onEvent as soon as it arrives
+  stream: async (
+    endpoint: string,
+    data: any,
+    token: string | null | undefined,
+    onEvent: (event: ChatStreamEvent) => void,
+    signal?: AbortSignal
+  ) => {
+    const headers: HeadersInit = {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    };
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${BASE_URL}${endpoint}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(data),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    const flushEvent = (rawEvent: string) => {
+      const payload = rawEvent
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (payload) {
+        onEvent(JSON.parse(payload));
+      }
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer = (buffer + decoder.decode(value, { stream: true })).replace(
+          /\r\n/g,
+          "\n"
+        );
+
+        // Events are separated by a blank line, the last piece may be incomplete
+        const rawEvents = buffer.split("\n\n");
+        buffer = rawEvents.pop() ?? "";
+        rawEvents.forEach(flushEvent);
+      }
+
+      flushEvent(buffer);
+    } finally {
+      // onEvent may throw mid-stream (an error event, bad JSON), so release the response body
+      reader.cancel().catch(() => undefined);
+    }
+  },
+
+  uploadToS3: async (
+    presignedUrl: string,
+    file: File,
+    signal?: AbortSignal
+  ) => {
     const response = await fetch(presignedUrl, {
       method: "PUT",
       body: file,
       headers: {
         "Content-Type": file.type,
       },
+      signal,
     });
     if (!response.ok) {
       throw new Error(`S3 Upload Error: ${response.status}`);
     }
     return response; // S3 doesn't return a JSON response, it returns a 200 status code if the upload is successful
   },
+
+  // XHR instead of fetch because fetch can't report upload progress.
+  // Resolves with the ETag, which multipart uploads need (the bucket's CORS must expose it)
+  uploadToS3WithProgress: (
+    presignedUrl: string,
+    file: Blob,
+    onProgress: (loadedBytes: number) => void,
+    signal?: AbortSignal
+  ) =>
+    new Promise<string | null>((resolve, reject) => {
+      // An abort listener never fires for a signal that was aborted before it was added
+      if (signal?.aborted) {
+        reject(new DOMException("Upload cancelled", "AbortError"));
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      xhr.open("PUT", presignedUrl);
+      // Sliced parts have no type, and part URLs aren't signed with one
+      if (file.type) {
+        xhr.setRequestHeader("Content-Type", file.type);
+      }
+
+      xhr.upload.onprogress = (event) => onProgress(event.loaded);
+      xhr.onload = () =>
+        xhr.status >= 200 && xhr.status < 300
+          ? resolve(xhr.getResponseHeader("ETag"))
+          : reject(new Error(`S3 Upload Error: ${xhr.status}`));
+      xhr.onerror = () => reject(new Error("Network error during upload"));
+      xhr.onabort = () =>
+        reject(new DOMException("Upload cancelled", "AbortError"));
+
+      signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+      xhr.send(file);
+    }),
 };
@@ -0,0 +1,123 @@
+// Helpers for chats whose messages form a tree (edits and regenerations branch off a parent)
+import { ChatWithMessages, Message } from "@/types";
+
+// Key used in active_branches for messages without a parent
+const ROOT_KEY = "root";
+
+export interface BranchPosition {
+  index: number;
+  count: number;
+}
+
+const branchKey = (parentId?: string | null) => parentId ?? ROOT_KEY;
+
+// Optimistic and stopped messages only exist in this browser, the server has never seen their ids
+export const isClientOnlyMessage = (message: Message) =>
+  message.id.startsWith("temp-") || message.id.startsWith("interrupted-");
+
+// Walks up from messageId to the nearest message the server knows about
+export function getServerAncestorId(
+  chat: ChatWithMessages,
+  messageId: string | null
+): string | null {
+  let current = chat.messages.find((msg) => msg.id === messageId);
+  while (current && isClientOnlyMessage(current)) {
+    const parentId = current.parent_id;
+    current = chat.messages.find((msg) => msg.id === parentId);
+  }
+  return current?.id ?? null;
+}
+
+// Older chats have no parent links, so each message follows the one before it
+export function normalizeMessageTree(chat: ChatWithMessages): ChatWithMessages {
+  return {
+    ...chat,
+    messages: chat.messages.map((message, index) =>
+      message.parent_id !== undefined
+        ? message
+        : { ...message, parent_id: chat.messages[index - 1]?.id ?? null }
+    ),
+  };
+}
+
+export function getSiblings(
+  chat: ChatWithMessages,
+  message: Message
+): Message[] {
+  return chat.messages.filter(
+    (msg) => branchKey(msg.parent_id) === branchKey(message.parent_id)
+  );
+}
+
+// Walks from the root, following the selected child (or the newest one) at every level
+export function getVisibleThread(chat: ChatWithMessages): Message[] {
+  const thread: Message[] = [];
+  let parentId: string | null = null;
+
+  while (true) {
+    const children = chat.messages.filter(
+      (msg) => branchKey(msg.parent_id) === branchKey(parentId)
+    );
+    if (children.length === 0) break;
+
+    const activeId: string | undefined =
+      chat.active_branches?.[branchKey(parentId)];
+    const next: Message =
+      children.find((msg) => msg.id === activeId) ??
+      children[children.length - 1];
+
+    thread.push(next);
+    parentId = next.id;
+  }
+
+  return thread;
+}
+
+export function getBranchPositions(
+  chat: ChatWithMessages,
+  thread: Message[]
+): Record<string, BranchPosition> {
+  return Object.fromEntries(
+    thread.map((message) => {
+      const siblings = getSiblings(chat, message);
+      return [
+        message.id,
+        {
+          index: siblings.findIndex((msg) => msg.id === message.id),
+          count: siblings.length,
+        },
+      ];
+    })
+  );
+}
+
+// Selects every branch on the way to a message so it ends up in the visible thread
+export function selectPathTo(
+  chat: ChatWithMessages,
+  messageId: string
+): ChatWithMessages {
+  let result = chat;
+  let current = chat.messages.find((msg) => msg.id === messageId);
+
+  while (current) {
+    result = selectBranch(result, current);
+    const parentId = current.parent_id;
+    current = chat.messages.find((msg) => msg.id === parentId);
+  }
+
+  return result;
+}
+
+// Makes the given message the one shown after its parent
+export function selectBranch(
+  chat: ChatWithMessages,
+  message: Message
+): ChatWithMessages {
+  return {
+    ...chat,
+    active_branches: {
+      ...chat.active_branches,
+      [branchKey(message.parent_id)]: message.id,
+    },
+  };
+}
@@ -0,0 +1,229 @@
+// Large files go to S3 in parts; finished parts are kept in localStorage so a reload can resume
+import { apiClient } from "@/lib";
+
+// S3 needs parts of at least 5 MB, except the last one
+export const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+export const MULTIPART_THRESHOLD = 2 * MULTIPART_PART_SIZE;
+
+const PART_CONCURRENCY = 4;
+const PART_MAX_ATTEMPTS = 3;
+const PART_RETRY_DELAY_MS = 1000;
+
+export interface UploadedPart {
+  part_number: number;
+  etag: string;
+}
+
+export interface MultipartUploadState {
+  upload_id: string;
+  s3_key: string;
+  filename: string;
+  file_size: number;
+  parts: UploadedPart[];
+  updated_at: string;
+}
+
+export interface StoredMultipartUpload extends MultipartUploadState {
+  fingerprint: string;
+}
+
+export interface PartUrl {
+  part_number: number;
+  presigned_url: string;
+}
+
+interface UploadPartsOptions {
+  file: File;
+  completedParts: UploadedPart[];
+  // Part URLs are requested per batch so they don't expire while earlier parts upload
+  getPartUrls: (partNumbers: number[]) => Promise<PartUrl[]>;
+  onPartCompleted: (part: UploadedPart) => void;
+  onProgress: (uploadedBytes: number) => void;
+  signal: AbortSignal;
+}
+
+const storageKey = (projectId: string) => `multipart-uploads:${projectId}`;
+
+// Same name, size and modified time is treated as the same file when resuming
+export const getFileFingerprint = (file: File) =>
+  `${file.name}:${file.size}:${file.lastModified}`;
+
+export const shouldUseMultipart = (file: File) =>
+  file.size > MULTIPART_THRESHOLD;
+
+function loadAll(projectId: string): Record<string, MultipartUploadState> {
+  if (typeof window === "undefined") return {};
+  try {
+    const stored = localStorage.getItem(storageKey(projectId));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveAll(
+  projectId: string,
+  uploads: Record<string, MultipartUploadState>
+) {
+  if (Object.keys(uploads).length === 0) {
+    localStorage.removeItem(storageKey(projectId));
+    return;
+  }
+  localStorage.setItem(storageKey(projectId), JSON.stringify(uploads));
+}
+
+export function loadMultipartUpload(projectId: string, fingerprint: string) {
+  return loadAll(projectId)[fingerprint] ?? null;
+}
+
+export function saveMultipartUpload(
+  projectId: string,
+  fingerprint: string,
+  upload: Omit<MultipartUploadState, "updated_at">
+) {
+  saveAll(projectId, {
+    ...loadAll(projectId),
+    [fingerprint]: { ...upload, updated_at: new Date().toISOString() },
+  });
+}
+
+export function clearMultipartUpload(projectId: string, fingerprint: string) {
+  const uploads = loadAll(projectId);
+  delete uploads[fingerprint];
+  saveAll(projectId, uploads);
+}
+
+// Uploads left unfinished by an earlier visit, waiting for their file to be dropped again
+export function listMultipartUploads(
+  projectId: string
+): StoredMultipartUpload[] {
+  return Object.entries(loadAll(projectId)).map(([fingerprint, upload]) => ({
+    fingerprint,
+    ...upload,
+  }));
+}
+
+const abortError = () => new DOMException("Upload cancelled", "AbortError");
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(abortError());
+    };
+    const timeout = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Uploads the parts not in completedParts and returns every part, sorted for the complete call
+export async function uploadParts({
+  file,
+  completedParts,
+  getPartUrls,
+  onPartCompleted,
+  onProgress,
+  signal,
+}: UploadPartsOptions): Promise<UploadedPart[]> {
+  const partCount = Math.ceil(file.size / MULTIPART_PART_SIZE);
+  const parts = [...completedParts];
+  const doneNumbers = new Set(parts.map((part) => part.part_number));
+  const remaining = Array.from({ length: partCount }, (_, i) => i + 1).filter(
+    (partNumber) => !doneNumbers.has(partNumber)
+  );
+
+  const partSize = (partNumber: number) =>
+    Math.min(
+      MULTIPART_PART_SIZE,
+      file.size - (partNumber - 1) * MULTIPART_PART_SIZE
+    );
+
+  // Bytes of finished parts plus whatever the in-flight parts have sent so far
+  let finishedBytes = parts.reduce(
+    (total, part) => total + partSize(part.part_number),
+    0
+  );
+  const inFlightBytes = new Map<number, number>();
+  const reportProgress = () =>
+    onProgress(
+      finishedBytes +
+        Array.from(inFlightBytes.values()).reduce((a, b) => a + b, 0)
+    );
+  reportProgress();
+
+  const uploadPart = async (
+    partNumber: number,
+    presignedUrl: string,
+    signal: AbortSignal
+  ) => {
+    const start = (partNumber - 1) * MULTIPART_PART_SIZE;
+    const blob = file.slice(start, start + partSize(partNumber));
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const etag = await apiClient.uploadToS3WithProgress(
+          presignedUrl,
+          blob,
+          (loadedBytes) => {
+            inFlightBytes.set(partNumber, loadedBytes);
+            reportProgress();
+          },
+          signal
+        );
+        if (!etag) {
+          throw new Error("S3 did not return an ETag for the part");
+        }
+        return etag;
+      } catch (err) {
+        inFlightBytes.delete(partNumber);
+        if (signal.aborted || attempt >= PART_MAX_ATTEMPTS) throw err;
+        await wait(PART_RETRY_DELAY_MS * attempt, signal);
+      }
+    }
+  };
+
+  for (let i = 0; i < remaining.length; i += PART_CONCURRENCY) {
+    const batch = remaining.slice(i, i + PART_CONCURRENCY);
+    const partUrls = await getPartUrls(batch);
+
+    // One part failing for good stops the rest of its batch, so nothing reports after the failure
+    const batchController = new AbortController();
+    const abortBatch = () => batchController.abort();
+    if (signal.aborted) abortBatch();
+    signal.addEventListener("abort", abortBatch, { once: true });
+
+    try {
+      await Promise.all(
+        partUrls.map(async ({ part_number, presigned_url }) => {
+          try {
+            const etag = await uploadPart(
+              part_number,
+              presigned_url,
+              batchController.signal
+            );
+            if (batchController.signal.aborted) return;
+            const part = { part_number, etag };
+            parts.push(part);
+            inFlightBytes.delete(part_number);
+            finishedBytes += partSize(part_number);
+            onPartCompleted(part);
+            reportProgress();
+          } catch (err) {
+            abortBatch();
+            throw err;
+          }
+        })
+      );
+    } finally {
+      signal.removeEventListener("abort", abortBatch);
+    }
+  }
+
+  return parts.sort((a, b) => a.part_number - b.part_number);
+}
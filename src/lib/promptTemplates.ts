@@ -0,0 +1,36 @@
+// Prompt templates: {name} is free text, {name:document} picks one of the project's documents
+
+export type TemplateVariableType = "text" | "document";
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+}
+
+const PLACEHOLDER_PATTERN = /\{(\w+)(?::(text|document))?\}/g;
+
+// Each name is asked for once, even if the template uses it several times
+export function parseTemplateVariables(body: string): TemplateVariable[] {
+  const variables = new Map<string, TemplateVariable>();
+
+  for (const [, name, type] of body.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!variables.has(name)) {
+      variables.set(name, {
+        name,
+        type: (type as TemplateVariableType) ?? "text",
+      });
+    }
+  }
+
+  return Array.from(variables.values());
+}
+
+export function fillTemplate(
+  body: string,
+  values: Record<string, string>
+): string {
+  return body.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name) => values[name] ?? placeholder
+  );
+}
@@ -0,0 +1,36 @@
+// Choices for retrieval settings, shared by project settings and chat overrides
+export const STRATEGY_OPTIONS = [
+  {
+    value: "basic",
+    label: "Vector Search",
+    description: "Semantic similarity matching",
+  },
+  {
+    value: "hybrid",
+    label: "Hybrid Search",
+    description: "Semantic + keyword matching",
+  },
+  {
+    value: "multi-query-vector",
+    label: "Multi-Query Vector",
+    description: "Multiple semantic queries",
+  },
+  {
+    value: "multi-query-hybrid",
+    label: "Multi-Query Hybrid",
+    description: "Multiple hybrid queries",
+  },
+];
+
+export const AGENT_MODE_OPTIONS = [
+  {
+    value: "simple",
+    label: "Simple RAG",
+    description: "Documents-only search",
+  },
+  {
+    value: "agentic",
+    label: "Agentic RAG",
+    description: "Smart tool selection with web search",
+  },
+];
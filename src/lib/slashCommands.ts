@@ -0,0 +1,177 @@
+// Slash commands typed into the chat input. To add one, append it to SLASH_COMMANDS:
+// suggestArguments feeds the autocomplete, run validates and says what to do.
+import { ChatSettingsOverride, ProjectDocument } from "@/types";
+import { STRATEGY_OPTIONS } from "./settingsOptions";
+
+export interface SlashCommandContext {
+  documents: ProjectDocument[];
+}
+
+export type SlashCommandAction = "compare" | "export" | "clear" | "templates";
+
+export type SlashCommandResult =
+  // Send a question, optionally with settings for this message only
+  | { type: "send"; content: string; settingsOverride?: ChatSettingsOverride }
+  // Change the chat's settings override
+  | { type: "update_settings"; settingsOverride: ChatSettingsOverride }
+  | { type: "action"; action: SlashCommandAction };
+
+export interface SlashCommand {
+  name: string;
+  usage: string;
+  description: string;
+  suggestArguments?: (context: SlashCommandContext) => string[];
+  run: (
+    args: string,
+    context: SlashCommandContext
+  ) => SlashCommandResult | { error: string };
+}
+
+export interface SlashCommandSuggestion {
+  value: string;
+  label: string;
+  description?: string;
+}
+
+// "/web on what changed?" -> ["on", "what changed?"]
+const splitFirstWord = (args: string) => {
+  const [first = "", ...rest] = args.split(/\s+/);
+  return [first.toLowerCase(), rest.join(" ")] as const;
+};
+
+// Settings commands apply to one question when one follows, otherwise to the chat
+const settingsResult = (
+  settingsOverride: ChatSettingsOverride,
+  question: string
+): SlashCommandResult =>
+  question
+    ? { type: "send", content: question, settingsOverride }
+    : { type: "update_settings", settingsOverride };
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: "summarize",
+    usage: "/summarize <document>",
+    description: "Summarize one of the project's documents",
+    suggestArguments: ({ documents }) => documents.map((doc) => doc.filename),
+    run: (args, { documents }) => {
+      if (!args) return { error: "Name a document to summarize" };
+      const document = documents.find(
+        (doc) => doc.filename.toLowerCase() === args.toLowerCase()
+      );
+      if (!document) return { error: `No document named "${args}"` };
+      return {
+        type: "send",
+        content: `Summarize the document "${document.filename}". Cover its main points, key figures and conclusions.`,
+      };
+    },
+  },
+  {
+    name: "compare",
+    usage: "/compare",
+    description: "Toggle side-by-side strategy comparison",
+    run: () => ({ type: "action", action: "compare" }),
+  },
+  {
+    name: "web",
+    usage: "/web on|off [question]",
+    description: "Turn web search on or off",
+    suggestArguments: () => ["on", "off"],
+    run: (args) => {
+      const [mode, question] = splitFirstWord(args);
+      if (mode !== "on" && mode !== "off") {
+        return { error: "Use /web on or /web off" };
+      }
+      return settingsResult(
+        { agent_type: mode === "on" ? "agentic" : "simple" },
+        question
+      );
+    },
+  },
+  {
+    name: "strategy",
+    usage: "/strategy <name> [question]",
+    description: "Switch the retrieval strategy",
+    suggestArguments: () => STRATEGY_OPTIONS.map((option) => option.value),
+    run: (args) => {
+      const [strategy, question] = splitFirstWord(args);
+      if (!STRATEGY_OPTIONS.some((option) => option.value === strategy)) {
+        return {
+          error: `Unknown strategy, pick one of: ${STRATEGY_OPTIONS.map(
+            (option) => option.value
+          ).join(", ")}`,
+        };
+      }
+      return settingsResult({ rag_strategy: strategy }, question);
+    },
+  },
+  {
+    name: "export",
+    usage: "/export",
+    description: "Download this conversation as Markdown",
+    run: () => ({ type: "action", action: "export" }),
+  },
+  {
+    name: "clear",
+    usage: "/clear",
+    description: "Start the next question without earlier context",
+    run: () => ({ type: "action", action: "clear" }),
+  },
+  {
+    name: "template",
+    usage: "/template",
+    description: "Open the prompt template library",
+    run: () => ({ type: "action", action: "templates" }),
+  },
+];
+
+const parseInput = (input: string) => {
+  const match = input.match(/^\/(\S*)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+  return {
+    name: match[1].toLowerCase(),
+    args: (match[2] ?? "").trim(),
+    hasArgs: match[2] !== undefined,
+  };
+};
+
+export const isSlashCommand = (input: string) => input.startsWith("/");
+
+export function getSlashCommandSuggestions(
+  input: string,
+  context: SlashCommandContext
+): SlashCommandSuggestion[] {
+  const parsed = parseInput(input);
+  if (!parsed) return [];
+
+  // Still typing the command name
+  if (!parsed.hasArgs) {
+    return SLASH_COMMANDS.filter((command) =>
+      command.name.startsWith(parsed.name)
+    ).map((command) => ({
+      value: `/${command.name}${command.suggestArguments ? " " : ""}`,
+      label: command.usage,
+      description: command.description,
+    }));
+  }
+
+  const command = SLASH_COMMANDS.find((c) => c.name === parsed.name);
+  if (!command?.suggestArguments) return [];
+
+  return command
+    .suggestArguments(context)
+    .filter((arg) => arg.toLowerCase().includes(parsed.args.toLowerCase()))
+    .map((arg) => ({ value: `/${command.name} ${arg}`, label: arg }));
+}
+
+export function runSlashCommand(
+  input: string,
+  context: SlashCommandContext
+): SlashCommandResult | { error: string } {
+  const parsed = parseInput(input);
+  const command = SLASH_COMMANDS.find((c) => c.name === parsed?.name);
+  if (!parsed || !command) {
+    return { error: `Unknown command "${input.split(/\s/)[0]}"` };
+  }
+  return command.run(parsed.args, context);
+}
@@ -12,6 +12,26 @@ export interface Chat {
   title: string;
   created_at: string;
   clerk_id: string;
+  is_pinned?: boolean;
+  // Summary fields the chats list uses for sorting and filtering
+  last_message_at?: string | null;
+  has_negative_feedback?: boolean;
+  has_web_results?: boolean;
+  // Retrieval settings this chat uses instead of the project defaults
+  settings_override?: ChatSettingsOverride | null;
+}
+
+export interface Citation {
+  filename: string;
+  page: number;
+  // Used to open the source document at the cited chunk
+  document_id?: string;
+  chunk_id?: string;
+  // Agentic answers can also cite pages found through web search
+  source_type?: "document" | "web";
+  url?: string;
+  // Text of the retrieved chunk, referenced by [n] markers in the answer
+  chunk_text?: string;
 }
 
 export interface Message {
@@ -21,16 +41,104 @@ export interface Message {
   created_at: string;
   chat_id: string;
   clerk_id: string;
-  citations?: Array<{
-    filename: string;
-    page: number;
-  }>;
+  citations?: Citation[];
+  // Client-side only: "interrupted" when a reply was stopped before it
+  // finished, "failed" when a user message could not be sent
+  status?: "interrupted" | "failed";
+  // Message this one follows; siblings sharing a parent are alternate branches
+  parent_id?: string | null;
+  // What retrieval did to produce an assistant answer
+  retrieval_trace?: RetrievalTrace;
+  // Tools the agent ran while answering (agentic projects only)
+  tool_calls?: ToolCallStep[];
+  feedback?: MessageFeedback;
+  // Images or small documents sent along with a question
+  attachments?: MessageAttachment[];
+}
+
+export interface MessageAttachment {
+  s3_key: string;
+  filename: string;
+  file_type: string;
+  file_size: number;
+  // Signed link for showing the attachment, set by the server
+  url?: string;
+}
+
+export interface MessageFeedback {
+  rating: "like" | "dislike";
+  comment?: string;
+  category?: string;
+}
+
+export interface ToolCallStep {
+  id: string;
+  tool_name: string;
+  arguments: Record<string, unknown>;
+  status: "running" | "completed" | "failed";
+  duration_ms?: number;
+  result_summary?: string;
+  urls_visited?: string[];
+}
+
+export interface RetrievedChunk {
+  chunk_id: string;
+  document_id?: string;
+  filename: string;
+  page: number;
+  content: string;
+  vector_score?: number | null;
+  keyword_score?: number | null;
+  rerank_score?: number | null;
+  // Whether the chunk survived the cut to final_context_size
+  in_final_context: boolean;
+}
+
+export interface RetrievalTrace {
+  // Generated by the multi-query strategies
+  sub_queries?: string[];
+  chunks: RetrievedChunk[];
+  // Settings snapshot the answer was generated with
+  settings: Pick<
+    ProjectSettings,
+    | "rag_strategy"
+    | "agent_type"
+    | "chunks_per_search"
+    | "final_context_size"
+    | "similarity_threshold"
+    | "number_of_queries"
+    | "reranking_enabled"
+    | "reranking_model"
+    | "vector_weight"
+    | "keyword_weight"
+  >;
 }
 
 export interface ChatWithMessages extends Chat {
+  // Every message across all branches of the conversation
   messages: Message[];
+  // Branch shown after each message, keyed by parent id ("root" for the first message)
+  active_branches?: Record<string, string>;
+}
+
+// A message matched by the project-wide search
+export interface MessageSearchResult {
+  message_id: string;
+  chat_id: string;
+  chat_title: string;
+  role: "user" | "assistant";
+  content: string;
+  created_at: string;
 }
 
+// Events emitted by the streaming message endpoint
+export type ChatStreamEvent =
+  | { type: "status"; status: string }
+  | { type: "tool_call"; step: ToolCallStep }
+  | { type: "token"; content: string }
+  | { type: "done"; userMessage: Message; aiResponse: Message }
+  | { type: "error"; message: string };
+
 export interface ProjectSettings {
   id: string;
   project_id: string;
@@ -48,6 +156,77 @@ export interface ProjectSettings {
   created_at: string;
 }
 
+export type ChatSettingsOverride = Partial<
+  Pick<
+    ProjectSettings,
+    "rag_strategy" | "chunks_per_search" | "similarity_threshold" | "agent_type"
+  >
+>;
+
+// One side of a strategy comparison: the same question under different settings
+export interface ComparisonResult {
+  strategy: string;
+  status: "loading" | "completed" | "failed";
+  message?: Message;
+  latency_ms?: number;
+  error?: string;
+}
+
+export interface ComparisonRun {
+  id: string;
+  question: string;
+  results: ComparisonResult[];
+  preferred_strategy?: string;
+}
+
+// Saved question with {placeholders}, shared across the user's projects
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+  created_at: string;
+}
+
+export type UploadStep = "presign" | "upload" | "confirm";
+
+export type UploadStatus =
+  | "hashing"
+  | "duplicate"
+  | "queued"
+  | "presigning"
+  | "uploading"
+  | "confirming"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type DuplicateResolution = "skip" | "replace" | "keep_both";
+
+// A file going through presign -> S3 upload -> confirm in the upload queue
+export interface UploadTask {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  uploaded_bytes: number;
+  error?: string;
+  failed_step?: UploadStep;
+  content_hash?: string;
+  // Existing document with the same content, waiting on a DuplicateResolution
+  duplicate_of?: Pick<ProjectDocument, "id" | "filename">;
+  // Set when duplicate_of is another file in the upload queue rather than a document
+  duplicate_in_queue?: boolean;
+  // Deleted once this upload is confirmed
+  replaces_document_id?: string;
+  // Uploaded as a new version of this document instead of a new document
+  target_document_id?: string;
+  // Kept from earlier steps so a retry continues where it failed
+  presigned_url?: string;
+  s3_key?: string;
+  // Set for files sent to S3 in parts
+  upload_id?: string;
+  is_uploaded?: boolean;
+}
+
 export interface ProjectDocument {
   id: string;
   project_id: string;
@@ -60,5 +239,21 @@ export interface ProjectDocument {
   created_at: string;
   source_type: string;
   source_url?: string;
+  // SHA-256 of the uploaded file, sent by the client with the presign request
+  content_hash?: string;
+  // Bumped by each "Upload new version"; chunks come from the active version
+  version_number?: number;
+  active_version_id?: string;
   processing_details: Record<string, unknown>;
 }
+
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  version_number: number;
+  filename: string;
+  file_size: number;
+  s3_key: string;
+  processing_status: string;
+  created_at: string;
+}